@@ -0,0 +1,113 @@
+import { readFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+
+import { runAutopilot } from "../src/autopilot.ts";
+import {
+    Constants,
+    defaultDamageRules,
+    hitShapes,
+    isHitShape,
+} from "../src/engine.ts";
+import { parseMapCsv } from "../src/map.ts";
+
+// --- Command-line options ---
+const { values } = parseArgs({
+    options: {
+        map: { type: "string", default: "assets/map.csv" },
+        // Generate pipes from each run's seed instead of reading the map
+        endless: { type: "boolean", default: false },
+        runs: { type: "string", default: "20" },
+        // Seed of the first run (the others follow on)
+        seed: { type: "string", default: "1" },
+        // Endless runs still alive after this long count as survived
+        minutes: { type: "string", default: "5" },
+        "invulnerable-ms": {
+            type: "string",
+            default: `${defaultDamageRules.invulnerableMs}`,
+        },
+        respawn: { type: "boolean", default: false },
+        // What pipes the bird hits with: box, ellipse or mask
+        "hit-shape": { type: "string", default: defaultDamageRules.hitShape },
+        // Exit with an error below this survival rate (0 to 1)
+        "min-survival": { type: "string" },
+        json: { type: "boolean", default: false },
+    },
+});
+
+const hitShape = values["hit-shape"];
+if (!isHitShape(hitShape)) {
+    throw new Error(`--hit-shape must be one of: ${hitShapes.join(", ")}`);
+}
+
+const schedule = values.endless
+    ? []
+    : parseMapCsv(readFileSync(values.map, "utf8"));
+const maxTicks = values.endless
+    ? Math.round((Number(values.minutes) * 60_000) / Constants.TICK_RATE_MS)
+    : undefined;
+
+// --- Runs ---
+const runs = Array.from({ length: Number(values.runs) }, (_, i) => {
+    const seed = Number(values.seed) + i;
+    const end = runAutopilot({
+        seed,
+        schedule,
+        mode: values.endless ? "endless" : "map",
+        damage: {
+            invulnerableMs: Number(values["invulnerable-ms"]),
+            respawn: values.respawn,
+            hitShape,
+        },
+        maxTicks,
+    });
+    // A map run survives if it ends with lives left; an endless one if it
+    // is still going when time runs out
+    const survived = values.endless ? !end.gameEnd : end.lives > 0;
+    // Lives picked up don't make up for those lost
+    return { seed, score: end.score, livesLost: end.hitsMs.length, survived };
+});
+
+// --- Report ---
+const scores = runs.map(r => r.score).sort((a, b) => a - b);
+const quantile = (q: number): number =>
+    scores[Math.min(scores.length - 1, Math.floor(q * scores.length))];
+const survival = runs.filter(r => r.survived).length / runs.length;
+const report = {
+    runs: runs.length,
+    survival,
+    score: {
+        min: scores[0],
+        p25: quantile(0.25),
+        median: quantile(0.5),
+        p75: quantile(0.75),
+        max: scores[scores.length - 1],
+        mean: scores.reduce((sum, x) => sum + x, 0) / scores.length,
+    },
+    livesLost: runs.reduce((sum, r) => sum + r.livesLost, 0) / runs.length,
+    failedSeeds: runs.filter(r => !r.survived).map(r => r.seed),
+};
+
+if (values.json) {
+    console.log(JSON.stringify(report, null, 4));
+} else {
+    console.log(`runs: ${report.runs}`);
+    console.log(`survival: ${(survival * 100).toFixed(1)}%`);
+    console.log(
+        `score: min ${report.score.min}, p25 ${report.score.p25}, ` +
+            `median ${report.score.median}, p75 ${report.score.p75}, ` +
+            `max ${report.score.max}, mean ${report.score.mean.toFixed(1)}`,
+    );
+    console.log(`lives lost per run: ${report.livesLost.toFixed(2)}`);
+    if (report.failedSeeds.length > 0) {
+        console.log(`failed seeds: ${report.failedSeeds.join(", ")}`);
+    }
+}
+
+const minSurvival = values["min-survival"];
+if (minSurvival !== undefined && survival < Number(minSurvival)) {
+    console.error(
+        `survival ${(survival * 100).toFixed(1)}% is below ` +
+            `${(Number(minSurvival) * 100).toFixed(1)}%`,
+    );
+    process.exitCode = 1;
+}
@@ -0,0 +1,90 @@
+import { parseArgs } from "node:util";
+
+import {
+    type State,
+    Constants,
+    Viewport,
+    advance,
+    createState,
+    flapR,
+} from "../src/engine.ts";
+import { logPoints, packTrace, traceAt, unpackTrace } from "../src/trace.ts";
+
+// --- Command-line options ---
+const { values } = parseArgs({
+    options: {
+        minutes: { type: "string", default: "10" },
+        ghosts: { type: "string", default: "150" },
+        seed: { type: "string", default: "1" },
+    },
+});
+
+const minutes = Number(values.minutes);
+const ghostCount = Number(values.ghosts);
+const ticksPerMinute = Math.round(60_000 / Constants.TICK_RATE_MS);
+
+// Milliseconds a function takes
+const timed = (f: () => void): number => {
+    const start = performance.now();
+    f();
+    return performance.now() - start;
+};
+
+// --- Recording: cost per tick should not grow with the length of the run ---
+// An endless run in which only the first hit costs a life, so it lasts as
+// long as asked, with a bird that flaps whenever it sinks below the middle
+const step = advance([]);
+let s: State = createState(Number(values.seed), [], [], "endless", {
+    invulnerableMs: Infinity,
+    respawn: false,
+    hitShape: "box",
+});
+const keepUp = (s: State): State =>
+    s.bird.velY > 0 && s.bird.pos.y > Viewport.CANVAS_HEIGHT / 2 ? flapR(s) : s;
+
+console.log(`Recording a ${minutes} minute run (${ticksPerMinute} ticks/min)`);
+const recording = Array.from({ length: minutes }, (_, m) => {
+    const ms = timed(() => {
+        for (let i = 0; i < ticksPerMinute; i++) s = step(keepUp(s));
+    });
+    return {
+        minute: m + 1,
+        "µs/tick": +((ms * 1000) / ticksPerMinute).toFixed(2),
+        points: s.trace?.length ?? 0,
+    };
+});
+console.table(recording);
+
+// --- Storage: packed trace against one rounded point per tick ---
+const points = logPoints(s.trace);
+const packed = packTrace(points);
+const plainBytes = JSON.stringify(
+    points.map(({ x, y }) => ({
+        x: Math.round(x * 10) / 10,
+        y: Math.round(y * 10) / 10,
+    })),
+).length;
+const packedBytes = JSON.stringify(packed).length;
+console.log(
+    `Stored trace: ${packedBytes} bytes packed, ${plainBytes} bytes as ` +
+        `points (${(plainBytes / packedBytes).toFixed(1)}x smaller)`,
+);
+
+// --- Playback: cost per frame should not depend on how far into the run ---
+const ghosts = Array.from({ length: ghostCount }, () => unpackTrace(packed));
+const frames = 1000;
+console.log(`Playing back ${ghostCount} ghosts (${frames} frames per minute)`);
+const playback = Array.from({ length: minutes }, (_, m) => {
+    const fromMs = m * 60_000;
+    const ms = timed(() => {
+        for (let f = 0; f < frames; f++) {
+            const timeMs = fromMs + (f * 60_000) / frames;
+            ghosts.forEach(trace => traceAt(trace, timeMs));
+        }
+    });
+    return {
+        minute: m + 1,
+        "µs/frame": +((ms * 1000) / frames).toFixed(2),
+    };
+});
+console.table(playback);
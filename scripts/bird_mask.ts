@@ -0,0 +1,132 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { inflateSync } from "node:zlib";
+
+import { bird } from "../src/engine.ts";
+
+// --- Command-line options ---
+const { values } = parseArgs({
+    options: {
+        sprite: { type: "string", default: "assets/bird.png" },
+        output: { type: "string", default: "src/birdMask.ts" },
+        // Share of a mask pixel the sprite must cover for it to count
+        coverage: { type: "string", default: "0.5" },
+    },
+});
+
+type Image = Readonly<{ width: number; height: number; alpha: Uint8Array }>;
+
+// Paeth predictor of the PNG filters
+const paeth = (a: number, b: number, c: number): number => {
+    const p = a + b - c;
+    const pa = Math.abs(p - a);
+    const pb = Math.abs(p - b);
+    const pc = Math.abs(p - c);
+    return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+};
+
+/**
+ * Reads the alpha channel of a PNG: 8-bit RGBA, not interlaced, as the
+ * sprite is saved.
+ *
+ * @param file PNG file contents
+ * @returns Size of the image and its alpha, row by row
+ * @throws Error if the PNG is in another format
+ */
+const readAlpha = (file: Buffer): Image => {
+    const chunks: Buffer[] = [];
+    let width = 0;
+    let height = 0;
+    for (let at = 8; at < file.length;) {
+        const length = file.readUInt32BE(at);
+        const type = file.toString("ascii", at + 4, at + 8);
+        const data = file.subarray(at + 8, at + 8 + length);
+        if (type === "IHDR") {
+            width = data.readUInt32BE(0);
+            height = data.readUInt32BE(4);
+            const [depth, colour, , , interlace] = data.subarray(8, 13);
+            if (depth !== 8 || colour !== 6 || interlace !== 0) {
+                throw new Error("Only 8-bit RGBA, non-interlaced PNGs");
+            }
+        }
+        if (type === "IDAT") chunks.push(data);
+        at += 12 + length;
+    }
+
+    // Undo each row's filter, against the row above
+    const raw = inflateSync(Buffer.concat(chunks));
+    const stride = width * 4;
+    const pixels = new Uint8Array(stride * height);
+    for (let y = 0; y < height; y++) {
+        const filter = raw[y * (stride + 1)];
+        const row = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+        for (let i = 0; i < stride; i++) {
+            const left = i >= 4 ? pixels[y * stride + i - 4] : 0;
+            const up = y > 0 ? pixels[(y - 1) * stride + i] : 0;
+            const upLeft =
+                y > 0 && i >= 4 ? pixels[(y - 1) * stride + i - 4] : 0;
+            const predicted = [
+                0,
+                left,
+                up,
+                (left + up) >> 1,
+                paeth(left, up, upLeft),
+            ][filter];
+            pixels[y * stride + i] = (row[i] + predicted) & 0xff;
+        }
+    }
+
+    const alpha = new Uint8Array(width * height);
+    alpha.forEach((_, i) => (alpha[i] = pixels[i * 4 + 3]));
+    return { width, height, alpha };
+};
+
+/**
+ * Scales the sprite's alpha down to the bird as drawn: a mask pixel is solid
+ * when the sprite pixels it covers are opaque enough on average.
+ *
+ * @param image Sprite alpha
+ * @param coverage Average opacity a solid pixel needs, 0 to 1
+ * @returns Mask rows, "#" for solid pixels and "." for the others
+ */
+const toMask = (image: Image, coverage: number): string[] =>
+    Array.from({ length: bird.HEIGHT }, (_, row) => {
+        const y0 = Math.floor((row * image.height) / bird.HEIGHT);
+        const y1 = Math.floor(((row + 1) * image.height) / bird.HEIGHT);
+        return Array.from({ length: bird.WIDTH }, (_, col) => {
+            const x0 = Math.floor((col * image.width) / bird.WIDTH);
+            const x1 = Math.floor(((col + 1) * image.width) / bird.WIDTH);
+            let sum = 0;
+            for (let y = y0; y < y1; y++) {
+                for (let x = x0; x < x1; x++) {
+                    sum += image.alpha[y * image.width + x];
+                }
+            }
+            const mean = sum / ((y1 - y0) * (x1 - x0) * 255);
+            return mean >= coverage ? "#" : ".";
+        }).join("");
+    });
+
+const mask = toMask(
+    readAlpha(readFileSync(values.sprite)),
+    Number(values.coverage),
+);
+
+writeFileSync(
+    values.output,
+    [
+        "/** ==================== Bird Hit Mask ==================== */",
+        "",
+        `// Generated by \`npm run bird-mask\` from the alpha channel of`,
+        `// ${values.sprite}, scaled to the bird as drawn: one row per pixel,`,
+        `// "#" where the sprite is opaque`,
+        "export const BIRD_MASK: readonly string[] = [",
+        ...mask.map(row => `    "${row}",`),
+        "];",
+        "",
+    ].join("\n"),
+);
+console.log(
+    `Mask written to ${values.output}: ` +
+        `${mask.join("").split("#").length - 1} of ${bird.WIDTH * bird.HEIGHT} pixels solid`,
+);
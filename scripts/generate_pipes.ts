@@ -1,56 +1,198 @@
-import { writeFileSync } from "node:fs";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { parseArgs } from "node:util";
 
-// all units relative to canvas width/height
-type Pipe = Readonly<{
-    gap_y: number;
-    gap_height: number;
-    time: number;
-}>;
+import { randInRange } from "../src/engine.ts";
+import type { SolvabilityReport } from "../src/solvability.ts";
+import { generateFromProfile, readProfiles } from "./patterns.ts";
+import { type Pipe, checkPipes, repair, toCsv } from "./pipes.ts";
 
-const randRange = (min: number, max: number): number =>
-    Math.random() * (max - min) + min;
+type GeneratorOptions = {
+    count: number;
+    seed: number;
+    startPos?: number;
+    posInterval?: number;
+    duration?: number; // Last allowed spawn time (s); caps count
+    minGapY?: number;
+    maxGapY?: number;
+    minGapHeight?: number;
+    maxGapHeight?: number;
+};
 
-const generatePipeCSV = ({
+// Same seeded RNG as the game, so a seed always yields the same map
+const generatePipes = ({
     count,
+    seed,
     startPos = 2,
     posInterval = 2,
+    duration = Infinity,
     minGapY = 0.2,
     maxGapY = 0.8,
     // bird height = 0.075
     minGapHeight = 0.2,
     maxGapHeight = 0.3,
-}: {
-    count: number;
-    startPos?: number;
-    posInterval?: number;
-    duration?: number;
-    minGapY?: number;
-    maxGapY?: number;
-    minGapHeight?: number;
-    maxGapHeight?: number;
-}): string => {
-    const pipes: readonly Pipe[] = Array.from({ length: count }, (_, i) => {
-        const gap_y = randRange(minGapY, maxGapY);
-        const gap_height = randRange(minGapHeight, maxGapHeight);
-        const time = startPos + i * posInterval;
-        return { gap_y, gap_height, time };
+}: GeneratorOptions): Pipe[] =>
+    Array.from({ length: count }, (_, i) => startPos + i * posInterval)
+        .filter(time => time <= duration)
+        .reduce<{ pipes: Pipe[]; seed: number }>(
+            (acc, time) => {
+                const y = randInRange(acc.seed, minGapY, maxGapY);
+                const h = randInRange(y.nextSeed, minGapHeight, maxGapHeight);
+                const pipe = { gap_y: y.value, gap_height: h.value, time };
+                return { pipes: [...acc.pipes, pipe], seed: h.nextSeed };
+            },
+            { pipes: [], seed },
+        ).pipes;
+
+const difficultyLabel = (d: number): string =>
+    d < 0.5 ? "easy" : d < 0.75 ? "normal" : d < 0.95 ? "hard" : "extreme";
+
+const printReport = (report: SolvabilityReport): void => {
+    console.log("pipe  time  gap_y gap_h    dy   px/s      difficulty");
+    report.pipes.forEach(p => {
+        const rating = `${p.difficulty.toFixed(2)} ${difficultyLabel(p.difficulty)}`;
+        console.log(
+            [
+                `${p.index + 1}`.padStart(4),
+                (p.timeMs / 1000).toFixed(1).padStart(6),
+                p.gapY.toFixed(0).padStart(7),
+                p.gapH.toFixed(0).padStart(6),
+                p.dy.toFixed(0).padStart(6),
+                p.rate.toFixed(0).padStart(7),
+                rating.padStart(16),
+                p.reachable ? "" : "  UNREACHABLE",
+            ].join(""),
+        );
     });
+    const ds = report.pipes.map(p => p.difficulty);
+    const mean = ds.reduce((a, b) => a + b, 0) / Math.max(1, ds.length);
+    const hardest = report.pipes.reduce(
+        (a, b) => (b.difficulty > a.difficulty ? b : a),
+        report.pipes[0],
+    );
+    console.log(
+        `mean difficulty ${mean.toFixed(2)} (${difficultyLabel(mean)}), ` +
+            `hardest pipe ${hardest ? hardest.index + 1 : "-"}`,
+    );
+};
 
-    return [
-        ["gap_y", "gap_height", "time"],
-        ...pipes.map(({ gap_y, gap_height, time }) => [
-            gap_y,
-            gap_height,
-            time,
-        ]),
-    ]
-        .map(xs => xs.join(","))
-        .join("\n");
+// --- Command-line options ---
+const { values } = parseArgs({
+    options: {
+        count: { type: "string", default: "20" },
+        seed: { type: "string" },
+        duration: { type: "string" },
+        start: { type: "string", default: "2" },
+        spacing: { type: "string", default: "2" },
+        "min-gap-y": { type: "string", default: "0.2" },
+        "max-gap-y": { type: "string", default: "0.8" },
+        "min-gap-height": { type: "string", default: "0.2" },
+        "max-gap-height": { type: "string", default: "0.3" },
+        // Where to write the map (required), and whether to overwrite it
+        out: { type: "string" },
+        force: { type: "boolean", default: false },
+        // Compose the map from patterns instead of uniform random gaps
+        profile: { type: "string" },
+        profiles: {
+            type: "string",
+            default: new URL("./profiles.json", import.meta.url).pathname,
+        },
+        // What to do with unsolvable maps: "repair" or "reject"
+        unsolvable: { type: "string", default: "repair" },
+        "max-repairs": { type: "string", default: "50" },
+    },
+});
+
+// Reads a numeric flag, exiting with a message if it is not a number
+const num = (name: string, v: string): number => {
+    const n = Number(v);
+    if (v.trim() === "" || !Number.isFinite(n)) {
+        console.error(`--${name} must be a number, got "${v}"`);
+        process.exit(2);
+    }
+    return n;
 };
 
 // --- Main Program ---
-const outputFile = new URL("../assets/map.csv", import.meta.url);
+if (values.out === undefined) {
+    console.error("--out is required (the map file to write)");
+    process.exit(2);
+}
+const outputFile = resolve(values.out);
+if (existsSync(outputFile) && !values.force) {
+    console.error(`${outputFile} already exists (--force overwrites it)`);
+    process.exit(2);
+}
+
+if (values.unsolvable !== "repair" && values.unsolvable !== "reject") {
+    console.error(`--unsolvable must be "repair" or "reject"`);
+    process.exit(2);
+}
+
+const seed =
+    values.seed !== undefined
+        ? num("seed", values.seed)
+        : Math.floor(Math.random() * 0x7fffffff);
+const maxGapHeight = num("max-gap-height", values["max-gap-height"]);
+
+// Pattern-based map from a named profile
+const fromProfile = (name: string): Pipe[] => {
+    const profiles = readProfiles(
+        JSON.parse(readFileSync(values.profiles, "utf8")),
+    );
+    const profile = profiles[name];
+    if (!profile) {
+        console.error(
+            `Unknown profile "${name}" (${Object.keys(profiles).join(", ")})`,
+        );
+        process.exit(2);
+    }
+    const { pipes, sequence } = generateFromProfile(
+        profile,
+        seed,
+        num("start", values.start),
+    );
+    console.log(`profile ${name}: ${sequence.join(" > ")}`);
+    return pipes;
+};
+
+const generated =
+    values.profile !== undefined
+        ? fromProfile(values.profile)
+        : generatePipes({
+              count: num("count", values.count),
+              seed,
+              startPos: num("start", values.start),
+              posInterval: num("spacing", values.spacing),
+              duration:
+                  values.duration !== undefined
+                      ? num("duration", values.duration)
+                      : undefined,
+              minGapY: num("min-gap-y", values["min-gap-y"]),
+              maxGapY: num("max-gap-y", values["max-gap-y"]),
+              minGapHeight: num("min-gap-height", values["min-gap-height"]),
+              maxGapHeight,
+          });
+
+const { pipes, report, repairs } =
+    values.unsolvable === "repair"
+        ? repair(
+              generated,
+              maxGapHeight,
+              num("max-repairs", values["max-repairs"]),
+          )
+        : { pipes: generated, report: checkPipes(generated), repairs: 0 };
+
+console.log(`seed ${seed}, ${pipes.length} pipes, ${repairs} repairs`);
+printReport(report);
+
+if (!report.solvable) {
+    console.error(
+        `Map is not solvable: pipe ${(report.blocked ?? 0) + 1} cannot be reached` +
+            (values.unsolvable === "repair" ? " even after repairs" : ""),
+    );
+    process.exit(1);
+}
 
-const csv = generatePipeCSV({ count: 20 });
-writeFileSync(outputFile, csv);
+writeFileSync(outputFile, toCsv(pipes));
 console.log(`CSV written to ${outputFile}`);
@@ -0,0 +1,337 @@
+import { randInRange } from "../src/engine.ts";
+import type { Pipe } from "./pipes.ts";
+
+/** ==================== Segment Patterns ==================== */
+
+// A parameter is either fixed or drawn from [min, max]
+type Param = number | readonly [number, number];
+
+export type PatternName = "staircase" | "zigzag" | "tunnel" | "rest" | "drop";
+
+// Parameters every pattern understands (each uses the ones it needs)
+export type PatternParams = Readonly<{
+    pipes: Param; // Number of pipes in the segment
+    spacing: Param; // Seconds between pipes
+    gapHeight: Param; // Gap height
+    step: Param; // Vertical move per pipe (staircase, tunnel drift)
+    amplitude: Param; // Swing around the segment's center (zigzag)
+    height: Param; // Size of the sudden move (drop)
+}>;
+
+const defaults: Record<PatternName, PatternParams> = {
+    staircase: {
+        pipes: [3, 5],
+        spacing: 1.6,
+        gapHeight: [0.25, 0.3],
+        step: [0.06, 0.1],
+        amplitude: 0,
+        height: 0,
+    },
+    zigzag: {
+        pipes: [4, 6],
+        spacing: 1.8,
+        gapHeight: [0.25, 0.3],
+        step: 0,
+        amplitude: [0.12, 0.2],
+        height: 0,
+    },
+    tunnel: {
+        pipes: [4, 6],
+        spacing: 1.2,
+        gapHeight: [0.22, 0.25],
+        step: [0, 0.03],
+        amplitude: 0,
+        height: 0,
+    },
+    rest: {
+        pipes: [2, 3],
+        spacing: 2.5,
+        gapHeight: [0.32, 0.38],
+        step: [0, 0.05],
+        amplitude: 0,
+        height: 0,
+    },
+    drop: {
+        pipes: 2,
+        spacing: 2,
+        gapHeight: [0.28, 0.32],
+        step: 0,
+        amplitude: 0,
+        height: [0.3, 0.45],
+    },
+};
+
+// Where the previous segment left off
+type Cursor = Readonly<{ gapY: number; time: number; seed: number }>;
+
+// Draws a parameter, threading the seed
+const sample = (seed: number, p: Param): { value: number; nextSeed: number } =>
+    typeof p === "number"
+        ? { value: p, nextSeed: seed }
+        : randInRange(seed, p[0], p[1]);
+
+// Draws a random sign, threading the seed
+const sampleSign = (seed: number): { value: 1 | -1; nextSeed: number } => {
+    const r = randInRange(seed, 0, 1);
+    return { value: r.value < 0.5 ? -1 : 1, nextSeed: r.nextSeed };
+};
+
+// Keeps the whole gap (plus a small margin) on screen
+const clampGap = (gapY: number, gapHeight: number): number =>
+    Math.max(gapHeight / 2 + 0.02, Math.min(1 - gapHeight / 2 - 0.02, gapY));
+
+// Draws every parameter of a pattern, in a fixed order
+const sampleParams = (
+    seed: number,
+    params: PatternParams,
+): { values: Record<keyof PatternParams, number>; nextSeed: number } => {
+    const keys = Object.keys(params) as (keyof PatternParams)[];
+    return keys.reduce(
+        (acc, k) => {
+            const s = sample(acc.nextSeed, params[k]);
+            return {
+                values: { ...acc.values, [k]: s.value },
+                nextSeed: s.nextSeed,
+            };
+        },
+        {
+            values: {} as Record<keyof PatternParams, number>,
+            nextSeed: seed,
+        },
+    );
+};
+
+/**
+ * Lays out one segment starting from where the previous one ended.
+ *
+ * @param pattern Pattern to lay out
+ * @param params Parameters (missing ones use the pattern's defaults)
+ * @param cursor Previous gap center, next spawn time and RNG seed
+ * @returns The segment's pipes and the cursor for the next segment
+ */
+export const layOut = (
+    pattern: PatternName,
+    params: Partial<PatternParams>,
+    cursor: Cursor,
+): { pipes: Pipe[]; cursor: Cursor } => {
+    const drawn = sampleParams(cursor.seed, {
+        ...defaults[pattern],
+        ...params,
+    });
+    const sign = sampleSign(drawn.nextSeed);
+    const v = drawn.values;
+    const count = Math.max(1, Math.round(v.pipes));
+
+    // Gap center of the i-th pipe of the segment
+    const centerAt: Record<PatternName, (i: number) => number> = {
+        staircase: i => cursor.gapY + sign.value * v.step * (i + 1),
+        zigzag: i => 0.5 + (i % 2 === 0 ? 1 : -1) * sign.value * v.amplitude,
+        tunnel: i => cursor.gapY + sign.value * v.step * i,
+        rest: () => cursor.gapY + (0.5 - cursor.gapY) * 0.5,
+        drop: i =>
+            i === 0
+                ? cursor.gapY
+                : cursor.gapY + (cursor.gapY < 0.5 ? 1 : -1) * v.height,
+    };
+
+    const pipes = Array.from({ length: count }, (_, i) => ({
+        gap_y: clampGap(centerAt[pattern](i), v.gapHeight),
+        gap_height: v.gapHeight,
+        time: cursor.time + i * v.spacing,
+    }));
+
+    return {
+        pipes,
+        cursor: {
+            gapY: pipes[pipes.length - 1].gap_y,
+            time: cursor.time + count * v.spacing,
+            seed: sign.nextSeed,
+        },
+    };
+};
+
+/** ==================== Difficulty Profiles ==================== */
+
+// A pattern a stage may pick, how often, and how to tune it
+export type SegmentChoice = Readonly<{
+    pattern: PatternName;
+    weight: number;
+    params?: Partial<PatternParams>;
+}>;
+
+// A run of segments drawn from the same pool
+export type Stage = Readonly<{
+    segments: number; // How many segments the stage lays out
+    choices: readonly SegmentChoice[];
+    noRepeat?: boolean; // Never pick the same pattern twice in a row
+    restEvery?: number; // Insert a rest segment after every N segments
+}>;
+
+export type Profile = Readonly<{ stages: readonly Stage[] }>;
+
+const PATTERNS: readonly PatternName[] = Object.keys(defaults) as PatternName[];
+
+const PARAMS: readonly (keyof PatternParams)[] = Object.keys(
+    defaults.staircase,
+) as (keyof PatternParams)[];
+
+// A finite number
+const isNumber = (v: unknown): v is number =>
+    typeof v === "number" && Number.isFinite(v);
+
+// A fixed value, or a range whose bounds are in order
+const isParam = (v: unknown): v is Param =>
+    isNumber(v) ||
+    (Array.isArray(v) && v.length === 2 && v.every(isNumber) && v[0] <= v[1]);
+
+// A whole number of at least 1
+const isCount = (v: unknown): v is number =>
+    isNumber(v) && Number.isInteger(v) && v >= 1;
+
+/**
+ * Checks the contents of a profiles file (an object of named profiles).
+ *
+ * @param raw Parsed JSON
+ * @returns Profiles by name
+ * @throws Error naming the first problem found
+ */
+export const readProfiles = (raw: unknown): Record<string, Profile> => {
+    if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+        throw new Error("Profiles must be an object of named profiles");
+    }
+    Object.entries(raw).forEach(([name, profile]) => {
+        if (!Array.isArray(profile?.stages) || profile.stages.length === 0) {
+            throw new Error(`Profile "${name}" needs a non-empty "stages"`);
+        }
+        profile.stages.forEach((stage: Stage, i: number) => {
+            const where = `Profile "${name}", stage ${i + 1}`;
+            if (!isCount(stage.segments)) {
+                throw new Error(
+                    `${where}: "segments" must be a whole number more than 0`,
+                );
+            }
+            if (stage.restEvery !== undefined && !isCount(stage.restEvery)) {
+                throw new Error(
+                    `${where}: "restEvery" must be a whole number more than 0`,
+                );
+            }
+            if (!Array.isArray(stage.choices) || stage.choices.length === 0) {
+                throw new Error(`${where}: "choices" must not be empty`);
+            }
+            stage.choices.forEach((c: SegmentChoice) => {
+                if (!PATTERNS.includes(c.pattern)) {
+                    throw new Error(
+                        `${where}: unknown pattern "${c.pattern}" ` +
+                            `(one of ${PATTERNS.join(", ")})`,
+                    );
+                }
+                if (!(isNumber(c.weight) && c.weight > 0)) {
+                    throw new Error(`${where}: weights must be more than 0`);
+                }
+                Object.entries(c.params ?? {}).forEach(([k, v]) => {
+                    if (!PARAMS.includes(k as keyof PatternParams)) {
+                        throw new Error(
+                            `${where}: unknown parameter "${k}" of ${c.pattern} ` +
+                                `(one of ${PARAMS.join(", ")})`,
+                        );
+                    }
+                    if (!isParam(v)) {
+                        throw new Error(
+                            `${where}: ${c.pattern} "${k}" must be a number ` +
+                                "or [min, max] with min <= max",
+                        );
+                    }
+                });
+            });
+        });
+    });
+    return raw as Record<string, Profile>;
+};
+
+/**
+ * Picks a pattern by weight, optionally excluding the previous one.
+ *
+ * @param seed RNG seed
+ * @param stage Stage to pick from
+ * @param previous Pattern of the previous segment
+ * @returns The chosen segment and the advanced seed
+ */
+const pick = (
+    seed: number,
+    stage: Stage,
+    previous: PatternName | undefined,
+): { choice: SegmentChoice; nextSeed: number } => {
+    const pool = stage.noRepeat
+        ? stage.choices.filter(c => c.pattern !== previous)
+        : stage.choices;
+    const choices = pool.length > 0 ? pool : stage.choices;
+    const total = choices.reduce((sum, c) => sum + c.weight, 0);
+    const r = randInRange(seed, 0, total);
+    const choice =
+        choices.find(
+            (_, i) =>
+                choices.slice(0, i + 1).reduce((sum, c) => sum + c.weight, 0) >=
+                r.value,
+        ) ?? choices[choices.length - 1];
+    return { choice, nextSeed: r.nextSeed };
+};
+
+// A rest segment, as inserted by `restEvery`
+const restChoice: SegmentChoice = { pattern: "rest", weight: 1 };
+
+/**
+ * Composes a whole map from a profile's stages.
+ *
+ * @param profile Difficulty profile
+ * @param seed RNG seed
+ * @param startPos Spawn time of the first pipe (s)
+ * @returns Pipes in spawn order, plus the pattern sequence used
+ */
+export const generateFromProfile = (
+    profile: Profile,
+    seed: number,
+    startPos: number,
+): { pipes: Pipe[]; sequence: PatternName[] } => {
+    type Acc = {
+        pipes: Pipe[];
+        sequence: PatternName[];
+        cursor: Cursor;
+    };
+
+    // The segments of every stage, in order, with rests inserted
+    const plan = profile.stages.flatMap(stage =>
+        Array.from({ length: stage.segments }, (_, i) => ({
+            stage,
+            restAfter:
+                stage.restEvery !== undefined &&
+                (i + 1) % stage.restEvery === 0 &&
+                i + 1 < stage.segments,
+        })),
+    );
+
+    const result = plan.reduce<Acc>(
+        (acc, { stage, restAfter }) => {
+            const previous = acc.sequence[acc.sequence.length - 1];
+            const { choice, nextSeed } = pick(acc.cursor.seed, stage, previous);
+            const choices = restAfter ? [choice, restChoice] : [choice];
+            return choices.reduce<Acc>(
+                (a, c) => {
+                    const seg = layOut(c.pattern, c.params ?? {}, a.cursor);
+                    return {
+                        pipes: [...a.pipes, ...seg.pipes],
+                        sequence: [...a.sequence, c.pattern],
+                        cursor: seg.cursor,
+                    };
+                },
+                { ...acc, cursor: { ...acc.cursor, seed: nextSeed } },
+            );
+        },
+        {
+            pipes: [],
+            sequence: [],
+            cursor: { gapY: 0.5, time: startPos, seed },
+        },
+    );
+
+    return { pipes: result.pipes, sequence: result.sequence };
+};
@@ -0,0 +1,68 @@
+/** ==================== Generated Pipes ==================== */
+
+import { parseMapCsv } from "../src/map.ts";
+import { type SolvabilityReport, checkSolvable } from "../src/solvability.ts";
+
+// all units relative to canvas width/height
+export type Pipe = Readonly<{
+    gap_y: number;
+    gap_height: number;
+    time: number;
+}>;
+
+// The map file of some pipes (v1 CSV)
+export const toCsv = (pipes: readonly Pipe[]): string =>
+    [
+        ["gap_y", "gap_height", "time"],
+        ...pipes.map(({ gap_y, gap_height, time }) => [
+            gap_y,
+            gap_height,
+            time,
+        ]),
+    ]
+        .map(xs => xs.join(","))
+        .join("\n");
+
+// How solvable some pipes are
+export const checkPipes = (pipes: readonly Pipe[]): SolvabilityReport =>
+    checkSolvable(parseMapCsv(toCsv(pipes)));
+
+/**
+ * Makes the blocked pipe easier: pulls its gap a third of the way towards the
+ * previous gap and widens it by 10%, up to the maximum gap height.
+ */
+const repairPipe = (
+    pipes: readonly Pipe[],
+    index: number,
+    maxGapHeight: number,
+): Pipe[] =>
+    pipes.map((p, i) => {
+        if (i !== index) return p;
+        const target = i > 0 ? pipes[i - 1].gap_y : 0.5;
+        return {
+            ...p,
+            gap_y: p.gap_y + (target - p.gap_y) / 3,
+            gap_height: Math.max(
+                p.gap_height,
+                Math.min(maxGapHeight, p.gap_height * 1.1),
+            ),
+        };
+    });
+
+// Repairs blocked pipes one at a time until the map is solvable
+export const repair = (
+    pipes: readonly Pipe[],
+    maxGapHeight: number,
+    attempts: number,
+): { pipes: readonly Pipe[]; report: SolvabilityReport; repairs: number } => {
+    const report = checkPipes(pipes);
+    if (report.solvable || attempts <= 0 || report.blocked === undefined) {
+        return { pipes, report, repairs: 0 };
+    }
+    const fixed = repair(
+        repairPipe(pipes, report.blocked, maxGapHeight),
+        maxGapHeight,
+        attempts - 1,
+    );
+    return { ...fixed, repairs: fixed.repairs + 1 };
+};
@@ -0,0 +1,76 @@
+import { readFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+
+import {
+    type TimedInput,
+    defaultDamageRules,
+    hitShapes,
+    isHitShape,
+    runGame,
+    tickCount,
+} from "../src/engine.ts";
+import { parseMapCsv } from "../src/map.ts";
+
+// --- Command-line options ---
+const { values } = parseArgs({
+    options: {
+        map: { type: "string", default: "assets/map.csv" },
+        seed: { type: "string", default: "0" },
+        // Comma-separated flap times in ms, e.g. "300,700,1100"
+        flaps: { type: "string", default: "" },
+        // JSON file holding an array of TimedInput
+        inputs: { type: "string" },
+        "max-ticks": { type: "string" },
+        // Generate pipes from the seed instead of reading the map
+        endless: { type: "boolean", default: false },
+        // Time after a hit during which further hits cost no life
+        "invulnerable-ms": {
+            type: "string",
+            default: `${defaultDamageRules.invulnerableMs}`,
+        },
+        // Move the bird into the next gap after losing a life
+        respawn: { type: "boolean", default: false },
+        // What pipes the bird hits with: box, ellipse or mask
+        "hit-shape": { type: "string", default: defaultDamageRules.hitShape },
+    },
+});
+
+const flapInputs = (times: string): TimedInput[] =>
+    times
+        .split(",")
+        .filter(t => t.trim() !== "")
+        .map(t => ({ timeMs: Number(t), action: "flap" }));
+
+const readInputs = (path: string): TimedInput[] =>
+    JSON.parse(readFileSync(path, "utf8")) as TimedInput[];
+
+// --- Main Program ---
+const hitShape = values["hit-shape"];
+if (!isHitShape(hitShape)) {
+    throw new Error(`--hit-shape must be one of: ${hitShapes.join(", ")}`);
+}
+
+const schedule = values.endless
+    ? []
+    : parseMapCsv(readFileSync(values.map, "utf8"));
+const inputs = [
+    ...flapInputs(values.flaps),
+    ...(values.inputs ? readInputs(values.inputs) : []),
+];
+
+const end = runGame({
+    seed: Number(values.seed),
+    schedule,
+    mode: values.endless ? "endless" : "map",
+    damage: {
+        invulnerableMs: Number(values["invulnerable-ms"]),
+        respawn: values.respawn,
+        hitShape,
+    },
+    inputs,
+    maxTicks: values["max-ticks"] ? Number(values["max-ticks"]) : undefined,
+});
+
+console.log(`score: ${end.score}`);
+console.log(`lives: ${end.lives}`);
+console.log(`ticks: ${tickCount(end)}`);
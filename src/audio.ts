@@ -0,0 +1,268 @@
+/** ==================== Sound ==================== */
+
+import { type Player, type State, playersOf } from "./engine.ts";
+import { isBoolean, isNumber, readSettings, writeJson } from "./storage.ts";
+
+// Things in a run that make a sound
+export type SoundEvent = "flap" | "score" | "pickup" | "hit" | "gameOver";
+
+// How loud the game is, as set by the player
+export type AudioSettings = Readonly<{
+    volume: number; // 0 to 1
+    muted: boolean;
+}>;
+
+export const defaultAudioSettings: AudioSettings = {
+    volume: 0.5,
+    muted: false,
+};
+
+// Storage key
+const settingsKey = "flappy-bird:audio";
+
+/**
+ * What happened between two consecutive states of a run, to any of its
+ * birds: each event is listed once, however many times it happened in
+ * between. A state earlier than the one before it (a rewind, or a seek back)
+ * makes no sound.
+ *
+ * @param prev State before
+ * @param curr State after
+ * @returns Events to play
+ */
+export const soundEvents = (prev: State, curr: State): SoundEvent[] => {
+    if (curr.timeMs < prev.timeMs) return [];
+    const before = playersOf(prev);
+    // Whether any bird changed so since the state before
+    const any = (changed: (a: Player, b: Player) => boolean) =>
+        playersOf(curr).some((p, i) => before[i] && changed(before[i], p));
+    const happened: Record<SoundEvent, boolean> = {
+        flap: any((a, b) => b.flaps.length > a.flaps.length),
+        // A pipe passed
+        score: any((a, b) => b.scoredMs.length > a.scoredMs.length),
+        pickup: any((a, b) => b.pickedUp.length > a.pickedUp.length),
+        hit: any((a, b) => b.lives < a.lives),
+        gameOver: curr.gameEnd && !prev.gameEnd,
+    };
+    return (Object.keys(happened) as SoundEvent[]).filter(e => happened[e]);
+};
+
+// Saved audio settings (defaults if none)
+export const loadAudioSettings = (
+    storage: Storage = localStorage,
+): AudioSettings =>
+    readSettings(storage, settingsKey, defaultAudioSettings, {
+        volume: isNumber,
+        muted: isBoolean,
+    });
+
+// Saves the audio settings
+export const saveAudioSettings = (
+    settings: AudioSettings,
+    storage: Storage = localStorage,
+): void => writeJson(storage, settingsKey, settings);
+
+/* -- Synthesis: every sound is made of a few tones, so no files are needed -- */
+
+// A tone: a waveform (or filtered noise) gliding from one pitch to another,
+// rising quickly and fading out
+type Tone = Readonly<{
+    wave: OscillatorType | "noise";
+    fromHz: number; // Pitch at the start (cut-off frequency for noise)
+    toHz: number; // Pitch at the end
+    atS: number; // Start, after the event (seconds)
+    lengthS: number;
+    gain: number; // Peak loudness, before the volume (0 to 1)
+}>;
+
+const sounds: Record<SoundEvent, readonly Tone[]> = {
+    // A quick chirp up
+    flap: [
+        {
+            wave: "triangle",
+            fromHz: 520,
+            toHz: 880,
+            atS: 0,
+            lengthS: 0.09,
+            gain: 0.35,
+        },
+    ],
+    // Two rising blips
+    score: [
+        {
+            wave: "square",
+            fromHz: 988,
+            toHz: 988,
+            atS: 0,
+            lengthS: 0.07,
+            gain: 0.15,
+        },
+        {
+            wave: "square",
+            fromHz: 1319,
+            toHz: 1319,
+            atS: 0.07,
+            lengthS: 0.14,
+            gain: 0.15,
+        },
+    ],
+    // A bright rising sweep
+    pickup: [
+        {
+            wave: "sine",
+            fromHz: 1047,
+            toHz: 2093,
+            atS: 0,
+            lengthS: 0.12,
+            gain: 0.3,
+        },
+    ],
+    // A thud under a burst of noise
+    hit: [
+        {
+            wave: "noise",
+            fromHz: 3000,
+            toHz: 400,
+            atS: 0,
+            lengthS: 0.18,
+            gain: 0.4,
+        },
+        {
+            wave: "sine",
+            fromHz: 180,
+            toHz: 60,
+            atS: 0,
+            lengthS: 0.25,
+            gain: 0.6,
+        },
+    ],
+    // A falling arpeggio
+    gameOver: [
+        {
+            wave: "triangle",
+            fromHz: 523,
+            toHz: 523,
+            atS: 0,
+            lengthS: 0.15,
+            gain: 0.3,
+        },
+        {
+            wave: "triangle",
+            fromHz: 392,
+            toHz: 392,
+            atS: 0.16,
+            lengthS: 0.15,
+            gain: 0.3,
+        },
+        {
+            wave: "triangle",
+            fromHz: 330,
+            toHz: 330,
+            atS: 0.32,
+            lengthS: 0.15,
+            gain: 0.3,
+        },
+        {
+            wave: "triangle",
+            fromHz: 262,
+            toHz: 196,
+            atS: 0.48,
+            lengthS: 0.6,
+            gain: 0.3,
+        },
+    ],
+};
+
+// Time a tone takes to rise to its peak (seconds)
+const ATTACK_S = 0.005;
+
+// Plays the sound of an event at the volume set
+export type SoundPlayer = (event: SoundEvent, settings: AudioSettings) => void;
+
+/**
+ * Web Audio player. The audio context is only created for the first sound
+ * played, and resumed whenever the browser has suspended it (it plays once
+ * the page has been interacted with). Where Web Audio is unavailable or
+ * blocked, the game stays silent.
+ *
+ * @returns Player of the game's sounds
+ */
+export const makeSoundPlayer = (): SoundPlayer => {
+    let context: AudioContext | null | undefined; // null once it failed
+    let noise: AudioBuffer | undefined;
+
+    // The audio context, created on first use
+    const contextOf = (): AudioContext | null => {
+        if (context === undefined) {
+            try {
+                context = new AudioContext();
+            } catch (err) {
+                console.error("Audio is unavailable, sounds are off:", err);
+                context = null;
+            }
+        }
+        return context;
+    };
+
+    // A second of white noise, shared by every noise tone
+    const noiseBuffer = (ctx: AudioContext): AudioBuffer => {
+        const buffer = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+        const samples = buffer.getChannelData(0);
+        for (let i = 0; i < samples.length; i++) {
+            samples[i] = Math.random() * 2 - 1;
+        }
+        return buffer;
+    };
+
+    // The waveform of a tone, with its pitch glide, feeding `out`
+    const source = (
+        ctx: AudioContext,
+        tone: Tone,
+        start: number,
+        out: AudioNode,
+    ): AudioScheduledSourceNode => {
+        const end = start + tone.lengthS;
+        if (tone.wave === "noise") {
+            noise ??= noiseBuffer(ctx);
+            const filter = ctx.createBiquadFilter();
+            filter.type = "lowpass";
+            filter.frequency.setValueAtTime(tone.fromHz, start);
+            filter.frequency.exponentialRampToValueAtTime(tone.toHz, end);
+            filter.connect(out);
+            const node = ctx.createBufferSource();
+            node.buffer = noise;
+            node.connect(filter);
+            return node;
+        }
+        const node = ctx.createOscillator();
+        node.type = tone.wave;
+        node.frequency.setValueAtTime(tone.fromHz, start);
+        node.frequency.exponentialRampToValueAtTime(tone.toHz, end);
+        node.connect(out);
+        return node;
+    };
+
+    return (event, { volume, muted }) => {
+        if (muted || volume <= 0) return;
+        const audio = contextOf();
+        if (!audio) return;
+        // Until the page is interacted with, the browser may refuse
+        if (audio.state === "suspended") audio.resume().catch(() => {});
+        const now = audio.currentTime;
+        sounds[event].forEach(tone => {
+            const start = now + tone.atS;
+            const end = start + tone.lengthS;
+            const gain = audio.createGain();
+            gain.gain.setValueAtTime(0, start);
+            gain.gain.linearRampToValueAtTime(
+                tone.gain * volume,
+                start + ATTACK_S,
+            );
+            gain.gain.exponentialRampToValueAtTime(0.0001, end);
+            gain.connect(audio.destination);
+            const node = source(audio, tone, start, gain);
+            node.start(start);
+            node.stop(end);
+        });
+    };
+};
@@ -0,0 +1,169 @@
+/** ==================== Autopilot ==================== */
+
+import {
+    type HitShape,
+    type Pipe,
+    type RunConfig,
+    type State,
+    Physics,
+    Viewport,
+    advance,
+    bird,
+    birdHitbox,
+    createState,
+    defaultDamageRules,
+    flapR,
+    movePipe,
+    sweepPipe,
+    worldDtMs,
+} from "./engine.ts";
+
+// How far ahead the autopilot plays each choice out (ticks)
+export const HORIZON_TICKS = 45;
+
+// What the autopilot predicts of the bird
+type Flight = Readonly<{ y: number; vy: number }>;
+
+// How a predicted flight went: ticks before it hit something (Infinity if
+// it never did), and how far it strayed from the gaps on average
+type Outcome = Readonly<{ crashAfter: number; drift: number }>;
+
+// The middle of the first gap the bird at x hasn't cleared, if any
+const nextGapY = (x: number, pipes: readonly Pipe[]): number | undefined =>
+    pipes.find(p => p.x + p.width > x - bird.WIDTH / 2)?.gapY;
+
+/**
+ * Where the pipes the bird could reach within the horizon will be, tick by
+ * tick. Pipes move the same whatever the bird does, so both choices share
+ * this.
+ *
+ * @param x Horizontal position of the bird
+ * @param pipes Pipes on screen
+ * @param dtMs How far the world moves each tick
+ * @returns Pipes as each tick of the horizon checks them (before they move)
+ */
+const pipeFutures = (
+    x: number,
+    pipes: readonly Pipe[],
+    dtMs: number,
+): Pipe[][] => {
+    const horizonMs = HORIZON_TICKS * dtMs;
+    const reachable = pipes.filter(
+        p =>
+            p.x + p.width > x - bird.WIDTH / 2 &&
+            p.x - (p.speed * horizonMs) / 1000 < x + bird.WIDTH / 2,
+    );
+    return Array.from({ length: HORIZON_TICKS }, (_, n) =>
+        reachable.map(movePipe(n * dtMs)),
+    );
+};
+
+// One tick of the flight, with the engine's physics, bounds and swept hits
+const fly = (
+    x: number,
+    f: Flight,
+    flap: boolean,
+    pipes: readonly Pipe[],
+    dtMs: number,
+    shape: HitShape,
+): Flight & { hit: boolean } => {
+    const dt = dtMs / 1000;
+    const vy = Math.max(
+        -Physics.TERMINAL_VEL,
+        Math.min(
+            Physics.TERMINAL_VEL,
+            (flap ? Physics.FLAP_VELOCITY : f.vy) + Physics.GRAVITY * dt,
+        ),
+    );
+    const y = f.y + vy * dt;
+    const box = birdHitbox(x, y);
+    const hit =
+        box.top < 0 ||
+        box.bottom > Viewport.CANVAS_HEIGHT ||
+        pipes.some(p => {
+            const h = sweepPipe(shape, x, f.y, y, p, dtMs);
+            return h.top || h.bottom;
+        });
+    return { y, vy, hit };
+};
+
+/**
+ * Plays a flight out over the horizon: the first tick flaps or not as asked,
+ * then the bird flaps whenever it falls below the middle of the next gap.
+ *
+ * @param x Horizontal position of the bird
+ * @param start Flight to play out
+ * @param futures Pipes after each tick
+ * @param fallbackY Height to aim for while no pipe is in reach
+ * @param flapNow Whether the first tick flaps
+ * @param dtMs How far the world moves each tick
+ * @param shape Bird's hit shape
+ * @returns How the flight went
+ */
+const playOut = (
+    x: number,
+    start: Flight,
+    futures: readonly (readonly Pipe[])[],
+    fallbackY: number,
+    flapNow: boolean,
+    dtMs: number,
+    shape: HitShape,
+): Outcome => {
+    let f = start;
+    let drift = 0;
+    for (let n = 0; n < futures.length; n++) {
+        const target = nextGapY(x, futures[n]) ?? fallbackY;
+        const flap = n === 0 ? flapNow : f.y > target && f.vy >= 0;
+        const next = fly(x, f, flap, futures[n], dtMs, shape);
+        if (next.hit) return { crashAfter: n, drift: drift / (n + 1) };
+        drift += Math.abs(next.y - target);
+        f = next;
+    }
+    return { crashAfter: Infinity, drift: drift / futures.length };
+};
+
+/**
+ * Decides whether to flap now, by playing both choices out and keeping the
+ * one that stays clear of pipes longer (or, if both do, closer to the gaps).
+ *
+ * @param s Current state
+ * @returns Whether the autopilot flaps
+ */
+export const shouldFlap = (s: State): boolean => {
+    const x = s.bird.pos.x;
+    const start: Flight = { y: s.bird.pos.y, vy: s.bird.velY };
+    // Slow motion is assumed to last the whole horizon
+    const dtMs = worldDtMs(s);
+    const futures = pipeFutures(x, s.pipes, dtMs);
+    const fallbackY = nextGapY(x, s.pipes) ?? Viewport.CANVAS_HEIGHT / 2;
+    const shape = s.damage.hitShape;
+    const flap = playOut(x, start, futures, fallbackY, true, dtMs, shape);
+    const glide = playOut(x, start, futures, fallbackY, false, dtMs, shape);
+    return flap.crashAfter !== glide.crashAfter
+        ? flap.crashAfter > glide.crashAfter
+        : flap.drift < glide.drift;
+};
+
+// Flaps if the autopilot would
+export const pilot = (s: State): State => (shouldFlap(s) ? flapR(s) : s);
+
+/**
+ * Runs a whole game headlessly with the autopilot at the controls.
+ *
+ * @param config Seed and map of the run (inputs are ignored)
+ * @returns The last state of the run
+ */
+export const runAutopilot = (config: RunConfig): State => {
+    const {
+        seed,
+        schedule,
+        mode = "map",
+        damage = defaultDamageRules,
+        maxTicks = Infinity,
+    } = config;
+    const step = advance(schedule);
+
+    let s = createState(seed, schedule, [], mode, damage);
+    for (let n = 1; n <= maxTicks && !s.gameEnd; n++) s = step(pilot(s));
+    return s;
+};
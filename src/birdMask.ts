@@ -0,0 +1,37 @@
+/** ==================== Bird Hit Mask ==================== */
+
+// Generated by `npm run bird-mask` from the alpha channel of
+// assets/bird.png, scaled to the bird as drawn: one row per pixel,
+// "#" where the sprite is opaque
+export const BIRD_MASK: readonly string[] = [
+    "...............###############............",
+    "...............###############............",
+    "..............################............",
+    "..........######################..........",
+    "..........######################..........",
+    ".......############################.......",
+    ".......############################.......",
+    ".......############################.......",
+    "...##################################.....",
+    "...##################################.....",
+    "#####################################.....",
+    "#####################################.....",
+    "#####################################.....",
+    "#####################################.....",
+    "#####################################.....",
+    "########################################..",
+    "########################################..",
+    "########################################..",
+    "...#######################################",
+    "...#######################################",
+    ".....###################################..",
+    ".....###################################..",
+    ".....###################################..",
+    ".....###################################..",
+    ".....###################################..",
+    ".......##############################.....",
+    ".......##############################.....",
+    "........#############################.....",
+    "............#############.................",
+    "............#############.................",
+];
@@ -0,0 +1,262 @@
+/** ==================== Map Editor ==================== */
+
+import {
+    type SpawnSpec,
+    type Vec,
+    Constants,
+    Viewport,
+    bird,
+    initialState,
+} from "./engine.ts";
+import { readMapCsv } from "./map.ts";
+import { type EnvelopeSlice } from "./solvability.ts";
+
+// Time between a pipe and one added or duplicated after it
+export const DEFAULT_SPACING_MS = 2000;
+
+// Gap height of a pipe added to an empty map (pixels)
+const DEFAULT_GAP_H = 0.3 * Viewport.CANVAS_HEIGHT;
+
+// Smallest gap a pipe can be given: just taller than the bird (pixels)
+const MIN_GAP_H = bird.HEIGHT + 1;
+
+// The map being edited
+export type EditorState = Readonly<{
+    pipes: readonly SpawnSpec[]; // In spawn order
+    selected: number | null; // Index of the selected pipe
+    cursorMs: number; // Where pipes are added and test plays start from
+}>;
+
+// Part of a pipe being dragged: the gap itself, or its top or bottom edge
+export type GrabPart = "gap" | "top" | "bottom";
+
+// A cell of the death heatmap on the timeline: where the bird was, and how
+// many lives were lost there against the deadliest cell (0 to 1)
+export type HeatCell = Readonly<{ x: number; width: number; share: number }>;
+
+// A drag in progress: what was grabbed, where, and the pipe as it was then
+export type Grab = Readonly<{
+    part: GrabPart;
+    from: Vec; // Pointer position on the timeline
+    pipe: SpawnSpec;
+}>;
+
+export const emptyEditor: EditorState = {
+    pipes: [],
+    selected: null,
+    cursorMs: 0,
+};
+
+/* -- Timeline: pipes laid out at their spawn time, at the default speed -- */
+
+// Position on the timeline of a spawn time
+export const timelineX = (timeMs: number): number =>
+    (timeMs / 1000) * Constants.PIPE_SPEED_PX_S;
+
+// Spawn time at a position on the timeline
+export const timelineTime = (x: number): number =>
+    (Math.max(0, x) / Constants.PIPE_SPEED_PX_S) * 1000;
+
+// Length of the timeline: the whole map, plus a screen to add pipes in
+export const timelineWidth = (pipes: readonly SpawnSpec[]): number =>
+    Math.max(...pipes.map(p => timelineX(p.timeMs)), 0) + Viewport.CANVAS_WIDTH;
+
+// Where the bird is on the timeline at a game time: the pipe that spawned
+// at that time is still a screen away, less the bird's own offset
+const BIRD_LAG_PX = Viewport.CANVAS_WIDTH - initialState.bird.pos.x;
+
+// Where the bird is on the timeline once the world has moved for a time
+const birdX = (worldMs: number): number => timelineX(worldMs) - BIRD_LAG_PX;
+
+// Spawn time of the pipe level with the bird once the world has moved for a
+// time: where on the timeline that is, in the units of the CSV file
+export const birdTimelineMs = (worldMs: number): number =>
+    timelineTime(birdX(worldMs));
+
+/**
+ * Outline of the flight envelope on the timeline: the highest heights the bird
+ * can reach going forward, then the lowest coming back.
+ *
+ * @param slices Flight envelope, tick by tick
+ * @param every Ticks between the points kept
+ * @returns Points of the outline
+ */
+export const envelopeOutline = (
+    slices: readonly EnvelopeSlice[],
+    every = 3,
+): Vec[] => {
+    const kept = slices.filter(
+        (_, i) => i % every === 0 || i === slices.length - 1,
+    );
+    const x = (e: EnvelopeSlice) => birdX(e.timeMs);
+    return [
+        ...kept.map(e => ({ x: x(e), y: e.top })),
+        ...[...kept].reverse().map(e => ({ x: x(e), y: e.bottom })),
+    ];
+};
+
+/**
+ * Cells of the death heatmap on the timeline, at the bird's position when
+ * those lives were lost. Cells where none were lost are left out.
+ *
+ * @param heat Lives lost per cell of map time (see `deathHeatmap`)
+ * @param cellMs Map time per cell
+ * @returns Cells to shade
+ */
+export const heatCells = (
+    heat: readonly number[],
+    cellMs: number,
+): HeatCell[] => {
+    const most = Math.max(0, ...heat);
+    return heat.flatMap((count, i) =>
+        count > 0
+            ? [
+                  {
+                      x: birdX(i * cellMs),
+                      width: timelineX(cellMs),
+                      share: count / most,
+                  },
+              ]
+            : [],
+    );
+};
+
+/* -- Edits -- */
+
+const clamp = (v: number, lo: number, hi: number): number =>
+    Math.min(hi, Math.max(lo, v));
+
+// Keeps a pipe's gap on the canvas and taller than the bird, and its spawn
+// time at 0 or later
+const clampPipe = (p: SpawnSpec): SpawnSpec => ({
+    ...p,
+    gapY: clamp(p.gapY, 0, Viewport.CANVAS_HEIGHT),
+    gapH: clamp(p.gapH, MIN_GAP_H, Viewport.CANVAS_HEIGHT),
+    timeMs: Math.max(0, Math.round(p.timeMs)),
+});
+
+/**
+ * Puts pipes back in spawn order, keeping the same pipe selected.
+ *
+ * @param e Editor state
+ * @param pipes Edited pipes, in any order
+ * @param selected Pipe to select, if any
+ * @returns Editor state with the pipes sorted
+ */
+const withPipes = (
+    e: EditorState,
+    pipes: readonly SpawnSpec[],
+    selected: SpawnSpec | null,
+): EditorState => {
+    const sorted = [...pipes].sort((a, b) => a.timeMs - b.timeMs);
+    const index = selected ? sorted.indexOf(selected) : -1;
+    return { ...e, pipes: sorted, selected: index >= 0 ? index : null };
+};
+
+// Opens a map file, dropping invalid rows (the errors are shown separately)
+export const openMap = (contents: string): EditorState => ({
+    ...emptyEditor,
+    pipes: readMapCsv(contents).schedule,
+});
+
+export const selectPipe =
+    (index: number | null) =>
+    (e: EditorState): EditorState => ({ ...e, selected: index });
+
+export const moveCursor =
+    (timeMs: number) =>
+    (e: EditorState): EditorState => ({
+        ...e,
+        cursorMs: Math.max(0, Math.round(timeMs)),
+        selected: null,
+    });
+
+// Adds a pipe at the cursor, shaped like the one before it, and moves the
+// cursor on so pipes can be added one after another
+export const addPipe = (e: EditorState): EditorState => {
+    const before = [...e.pipes].reverse().find(p => p.timeMs <= e.cursorMs);
+    const pipe = clampPipe({
+        gapY: before?.gapY ?? Viewport.CANVAS_HEIGHT / 2,
+        gapH: before?.gapH ?? DEFAULT_GAP_H,
+        timeMs: e.cursorMs,
+    });
+    return {
+        ...withPipes(e, [...e.pipes, pipe], pipe),
+        cursorMs: e.cursorMs + DEFAULT_SPACING_MS,
+    };
+};
+
+// Copies the selected pipe, behaviours included, one spacing later
+export const duplicatePipe = (e: EditorState): EditorState => {
+    if (e.selected === null) return e;
+    const source = e.pipes[e.selected];
+    const copy = { ...source, timeMs: source.timeMs + DEFAULT_SPACING_MS };
+    return withPipes(e, [...e.pipes, copy], copy);
+};
+
+export const deletePipe = (e: EditorState): EditorState =>
+    e.selected === null
+        ? e
+        : {
+              ...e,
+              pipes: e.pipes.filter((_, i) => i !== e.selected),
+              selected: null,
+          };
+
+// Changes the selected pipe's gap, spawn time or pickup
+export const editPipe =
+    (
+        changes: Partial<
+            Pick<SpawnSpec, "gapY" | "gapH" | "timeMs" | "pickup">
+        >,
+    ) =>
+    (e: EditorState): EditorState => {
+        if (e.selected === null) return e;
+        const edited = clampPipe({ ...e.pipes[e.selected], ...changes });
+        return withPipes(
+            e,
+            e.pipes.map((p, i) => (i === e.selected ? edited : p)),
+            edited,
+        );
+    };
+
+/**
+ * Follows a drag on the timeline: the gap moves in time and height with the
+ * pointer, while an edge moves on its own and the other edge stays put.
+ *
+ * @param grab What was grabbed
+ * @param to Pointer position on the timeline now
+ * @returns Transition of the editor state
+ */
+export const dragPipe =
+    (grab: Grab, to: Vec) =>
+    (e: EditorState): EditorState => {
+        const { pipe, part, from } = grab;
+        const dy = to.y - from.y;
+        if (part === "gap") {
+            return editPipe({
+                gapY: pipe.gapY + dy,
+                timeMs: pipe.timeMs + timelineTime(to.x) - timelineTime(from.x),
+            })(e);
+        }
+        // The edge that stays put, and the gap height the moved one leaves
+        const fixed =
+            part === "top"
+                ? pipe.gapY + pipe.gapH / 2
+                : pipe.gapY - pipe.gapH / 2;
+        const gapH = clamp(
+            pipe.gapH + (part === "top" ? -dy : dy),
+            MIN_GAP_H,
+            Viewport.CANVAS_HEIGHT,
+        );
+        return editPipe({
+            gapH,
+            gapY: part === "top" ? fixed - gapH / 2 : fixed + gapH / 2,
+        })(e);
+    };
+
+// Pipes from the cursor on, moved earlier so the first spawns as play starts
+export const testSchedule = (e: EditorState): SpawnSpec[] =>
+    e.pipes
+        .filter(p => p.timeMs >= e.cursorMs)
+        .map(p => ({ ...p, timeMs: p.timeMs - e.cursorMs }));
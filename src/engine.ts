@@ -0,0 +1,1280 @@
+/** == The numbers in each comment indicate the order of implementation. == */
+
+import { BIRD_MASK } from "./birdMask.ts";
+
+/** ==================== Constants ==================== */
+
+export const Viewport = {
+    CANVAS_WIDTH: 600,
+    CANVAS_HEIGHT: 400,
+} as const;
+
+export const bird = {
+    WIDTH: 42,
+    HEIGHT: 30,
+} as const;
+
+export const Constants = {
+    PIPE_WIDTH: 50,
+    PIPE_SPEED_PX_S: 150, // 6. Pipe horizontal speed in pixels per second
+    TICK_RATE_MS: 16, // 1. Might need to change this!
+} as const;
+
+// 5. Physical constants for a flappy bird
+export const Physics = {
+    GRAVITY: 1200,
+    FLAP_VELOCITY: -350,
+    TERMINAL_VEL: 600, // Upper bound velocity |v| <= 600
+    BOUNCE_MIN: 220, // 7. Bounce lower bound
+    BOUNCE_MAX: 420, // 7. Bounce upper bound
+};
+
+// Endless mode: how pipes are generated, from the first one to the hardest
+export const Endless = {
+    FIRST_SPAWN_MS: 2000, // When the first pipe appears
+    RAMP_SCORE: 50, // Score at which difficulty stops increasing
+    SPACING_MS: [2000, 1100], // Time between spawns (easiest, hardest)
+    GAP_H: [0.34, 0.2], // Gap height, fraction of canvas height
+    SPEED_PX_S: [Constants.PIPE_SPEED_PX_S, 260], // Pipe horizontal speed
+    GAP_Y: [0.2, 0.8], // Range of gap centers, fraction of canvas height
+    MAX_STEP: [0.25, 0.4], // Largest move between consecutive gap centers
+    PICKUP_CHANCE: 0.25, // Chance a pipe carries a pickup in its gap
+    // How often each pickup is drawn, relative to the others
+    PICKUP_WEIGHTS: { coin: 6, shield: 2, slow: 1.5, life: 0.5 },
+} as const;
+
+// Pickups: their hitbox, how long they stay, and what they do
+export const Pickups = {
+    SIZE: 20, // Width and height of a pickup's hitbox (pixels)
+    LIFETIME_MS: 4000, // Time a pickup stays before it disappears
+    COIN_SCORE: 1, // Bonus score per coin
+    SHIELD_MS: 10000, // Time a shield lasts if it absorbs no hit
+    SLOW_MS: 5000, // Time slow motion lasts
+    SLOW_FACTOR: 0.5, // How fast the world moves in slow motion
+    MAX_LIVES: 5, // Extra lives stop adding up here
+} as const;
+
+// What pipes the bird hits with: the whole box around its sprite, the
+// ellipse inside that box, or the sprite's opaque pixels
+export type HitShape = "box" | "ellipse" | "mask";
+
+export const hitShapes: readonly HitShape[] = ["box", "ellipse", "mask"];
+
+export const isHitShape = (v: unknown): v is HitShape =>
+    hitShapes.includes(v as HitShape);
+
+// What counts as a hit, and what happens after the bird is hit
+export type DamageRules = Readonly<{
+    invulnerableMs: number; // Time after a hit in which hits cost no life
+    respawn: boolean; // Move the bird into the next gap after losing a life
+    hitShape: HitShape; // Against pipes (the screen edges take the box)
+}>;
+
+export const defaultDamageRules: DamageRules = {
+    invulnerableMs: 1500,
+    respawn: false,
+    hitShape: "box",
+};
+
+// A pipe passed with the bird's box this close to its gap's edges (pixels),
+// without touching anything, is a near miss
+export const NEAR_MISS_PX = 5;
+
+/** ==================== Data Types ==================== */
+
+/* -- 2. Entities (Game Data Types) -- */
+// Represents a 2D vector (used for positions)
+export type Vec = Readonly<{ x: number; y: number }>;
+
+// Represents the bird entity with position and vertical velocity
+export type Bird = Readonly<{
+    pos: Vec; // Center position of the bird
+    velY: number; // Vertical velocity (+ = downward)
+}>;
+
+// How a pipe moves and how its gap changes over its lifetime (map v2)
+export type PipeBehaviour = Readonly<{
+    speed: number; // Horizontal speed (pixels per second)
+    width: number; // Pipe width (pixels)
+    amplitude: number; // How far the gap center swings up and down (pixels)
+    periodMs: number; // Duration of one full swing (0 = static gap)
+    gapEndH: number; // Gap height reached after gapChangeMs (pixels)
+    gapChangeMs: number; // Time to close/open the gap (0 = fixed height)
+}>;
+
+// Represents a pipe obstacle with a vertical gap
+export type Pipe = Readonly<
+    {
+        id: number; // Unique identifier to match pipe with its SVG element
+        x: number; // x-coordinate of the left side of the pipe
+        gapY: number; // Vertical center of the gap (current)
+        gapH: number; // Height of the gap (current)
+        passed: boolean; // 9. If the bird has already passed this pipe
+        ageMs: number; // Time since the pipe spawned
+        baseGapY: number; // Gap center the swing is around
+        baseGapH: number; // Gap height when spawned
+    } & PipeBehaviour
+>;
+
+// What the bird can pick up: a coin (bonus score), a shield (absorbs one
+// hit), slow motion (the world moves slower for a while) or an extra life
+export type PickupKind = "coin" | "shield" | "slow" | "life";
+
+// Power-ups that last a while
+export type EffectKind = Extract<PickupKind, "shield" | "slow">;
+
+// A pickup on screen: it rides in the gap of the pipe it came with
+export type Pickup = Readonly<{
+    id: number; // Same as its pipe's, to match it with its SVG element
+    kind: PickupKind;
+    pos: Vec; // Center of the pickup
+    ageMs: number; // Time since it spawned
+    lifetimeMs: number; // It disappears when its age reaches this
+}>;
+
+// A pickup the bird took, and when
+export type PickedUp = Readonly<{ kind: PickupKind; timeMs: number }>;
+
+// Where the bird lost a life: when, how far the world had moved by then (its
+// place on the map), and how high it was
+export type LifeLost = Readonly<{ timeMs: number; worldMs: number; y: number }>;
+
+// 3. Represents a scheduled pipe spawn (parsed from CSV)
+// -> Behaviours left out fall back to a plain static pipe
+export type SpawnSpec = Readonly<
+    {
+        gapY: number; // Vertical center of the gap (pixels)
+        gapH: number; // Gap height (pixels)
+        timeMs: number; // When the pipe should appear (ms from game start)
+        pickup?: PickupKind; // Placed in the gap (map v3)
+    } & Partial<PipeBehaviour>
+>;
+
+// 7. Collision Detection:
+// -> Shared type for all rectangular hitboxes (Helper functions)
+export type Hitbox = Readonly<{
+    left: number;
+    right: number;
+    top: number;
+    bottom: number;
+}>;
+
+// 7. Types for Collision Handling and Random Bounce
+export type CollisionOutcome = Readonly<{
+    y: number; // New bird y
+    vy: number; // New bird vy
+    seed: number; // Advanced RNG seed
+    collided: boolean; // To check if any collision happened
+}>;
+
+/* -- 12. Ghost Replay Data Types -- */
+// The path of the bird as it is recorded: newest point first, sharing the
+// older ones, so recording a tick never copies the path
+export type TraceLog = Readonly<{
+    point: Vec;
+    before: TraceLog | null;
+    length: number; // Points recorded so far
+}>;
+
+// The path of the bird during a single run, one point every `every` ticks
+export type Trace = Readonly<{ every: number; points: readonly Vec[] }>;
+
+// A past run raced against: its path, and what to show alongside it
+export type Ghost = Readonly<{
+    id: number; // Run number
+    score: number; // Score the run finished with
+    crashed: boolean; // Whether the run ended by losing its last life
+    trace: Trace;
+    hitsMs: readonly number[]; // When the run lost a life
+    scoredMs: readonly number[]; // When the run passed a pipe
+}>;
+export type GhostList = ReadonlyArray<Ghost>; // The collection of all past runs
+
+// Where pipes come from: the loaded map, or generated without end
+export type GameMode = "map" | "endless";
+
+// 2. State processing
+// -> The main immutable game state, updated each tick
+export type State = Readonly<{
+    timeMs: number; // Elapsed game time in ms
+    gameEnd: boolean; // Whether the game has ended
+    bird: Bird; // Current bird status
+    pipes: readonly Pipe[]; // Active pipes on screen
+    pickups: readonly Pickup[]; // Pickups on screen
+    effects: Readonly<Record<EffectKind, number>>; // When each power-up ends
+    worldMs: number; // Time the world has moved, slowed in slow motion
+    lives: number; // Remaining lives (start with 3)
+    score: number; // Current player score
+    nextId: number; // 6. Unique ID counter for spawns
+    seed: number; // 7. PRNG seed
+    totalPipesPlanned: number; // 10. Total number of pipes in CSV
+    mode: GameMode; // Map or endless run
+    nextSpawnMs: number; // When endless mode spawns its next pipe
+    damage: DamageRules; // How hits are handled in this run
+    invulnerableUntilMs: number; // Hits cost no life until this time
+    ghosts: GhostList; // 12. List of traces from all past runs
+    trace: TraceLog | null; // 12. Record of the current run (null until a tick)
+    hitsMs: readonly number[]; // When the run lost a life
+    scoredMs: readonly number[]; // When the run passed a pipe
+    pickedUp: readonly PickedUp[]; // What the run picked up
+    nearestPx: number; // Closest to the edges of the gap it is flying through
+    nearMissesMs: readonly number[]; // When the run had a near miss
+    lostAt: readonly LifeLost[]; // Where the run lost each life
+    flaps: readonly number[]; // Tick indices at which the player flapped
+    others: readonly Player[]; // The other birds of a multiplayer run
+}>;
+
+// What each bird of a run has of its own: player 1's are the state's own
+// fields, the other players' are kept in `others`
+export type Player = Pick<
+    State,
+    | "bird"
+    | "lives"
+    | "score"
+    | "effects"
+    | "invulnerableUntilMs"
+    | "trace"
+    | "hitsMs"
+    | "scoredMs"
+    | "pickedUp"
+    | "nearestPx"
+    | "nearMissesMs"
+    | "lostAt"
+    | "flaps"
+>;
+
+/** ==================== Helper Functions ==================== */
+
+/* -- 7. Pure RNG Helper Function -- */
+export abstract class RNG {
+    private static m = 0x80000000; // 2^31, modulus
+    private static a = 1103515245; // multiplier
+    private static c = 12345; // increment
+
+    // Compute next hash value from given seed
+    static hash = (seed: number) => (RNG.a * seed + RNG.c) % RNG.m;
+
+    // Scale hash to the range [-1, 1]
+    static scale = (hash: number) => (2 * hash) / (RNG.m - 1) - 1;
+}
+
+// Return random number in [0,1] and updated seed
+export const rand01 = (seed: number) => {
+    const h = RNG.hash(seed);
+    const r01 = (RNG.scale(h) + 1) / 2;
+    return { nextSeed: h, r01 };
+};
+
+// Return random number in [lo, hi] and updated seed
+export const randInRange = (seed: number, lo: number, hi: number) => {
+    const { nextSeed, r01 } = rand01(seed);
+    return { nextSeed, value: lo + r01 * (hi - lo) };
+};
+
+// Whether the bird is still recovering from a hit
+export const isInvulnerable = (s: State): boolean =>
+    s.timeMs < s.invulnerableUntilMs;
+
+// Whether a power-up is in effect
+export const hasEffect = (s: State, kind: EffectKind): boolean =>
+    s.timeMs < s.effects[kind];
+
+// Power-ups in effect, with the time they have left
+export const activeEffects = (
+    s: State,
+): { kind: EffectKind; remainingMs: number }[] =>
+    (Object.keys(s.effects) as EffectKind[])
+        .filter(kind => hasEffect(s, kind))
+        .map(kind => ({ kind, remainingMs: s.effects[kind] - s.timeMs }));
+
+// How far the world moves in one tick: less while any bird is in slow motion
+export const worldDtMs = (s: State): number =>
+    Constants.TICK_RATE_MS *
+    (playersOf(s).some(p => s.timeMs < p.effects.slow)
+        ? Pickups.SLOW_FACTOR
+        : 1);
+
+/* -- Players: several birds can fly through the same pipes -- */
+
+// Every bird of a run, player 1 first
+export const playersOf = (s: State): Player[] => [s, ...s.others];
+
+// A player's own fields
+const playerOf = (p: Player): Player => ({
+    bird: p.bird,
+    lives: p.lives,
+    score: p.score,
+    effects: p.effects,
+    invulnerableUntilMs: p.invulnerableUntilMs,
+    trace: p.trace,
+    hitsMs: p.hitsMs,
+    scoredMs: p.scoredMs,
+    pickedUp: p.pickedUp,
+    nearestPx: p.nearestPx,
+    nearMissesMs: p.nearMissesMs,
+    lostAt: p.lostAt,
+    flaps: p.flaps,
+});
+
+// The run as a player sees it: the state, with that player's bird in it
+export const playerView = (s: State, index: number): State =>
+    index === 0 ? s : { ...s, ...s.others[index - 1] };
+
+// Puts a player's own fields back into the run
+const withPlayer = (s: State, index: number, p: Player): State =>
+    index === 0
+        ? { ...s, ...p }
+        : { ...s, others: s.others.map((o, i) => (i === index - 1 ? p : o)) };
+
+// Whether a player has lost every life
+export const isOut = (p: Player): boolean => p.lives <= 0;
+
+/**
+ * Who won a run with several players: the most points, then the most lives
+ * left.
+ *
+ * @param s Last state of the run
+ * @returns Index of the winner (0 for player 1), or null on a draw
+ */
+export const winner = (s: State): number | null => {
+    const players = playersOf(s);
+    const compare = (a: Player, b: Player) =>
+        a.score - b.score || a.lives - b.lives;
+    const best = players.reduce(
+        (b, p, i) => (compare(p, players[b]) > 0 ? i : b),
+        0,
+    );
+    const tied = players.some(
+        (p, i) => i !== best && compare(p, players[best]) === 0,
+    );
+    return tied ? null : best;
+};
+
+// Number of ticks a state has gone through
+export const tickCount = (s: State): number =>
+    Math.round(s.timeMs / Constants.TICK_RATE_MS);
+
+/* -- 7. Collision Detection Utilities -- */
+// Bird's hitbox computed from its center (x,y)
+export const birdHitbox = (x: number, y: number): Hitbox => ({
+    left: x - bird.WIDTH / 2,
+    right: x + bird.WIDTH / 2,
+    top: y - bird.HEIGHT / 2,
+    bottom: y + bird.HEIGHT / 2,
+});
+
+// Top pipe hitbox (from screen top to gap)
+export const pipeTopHitbox = (p: Pipe): Hitbox => ({
+    left: p.x,
+    right: p.x + p.width,
+    top: 0,
+    bottom: p.gapY - p.gapH / 2,
+});
+
+// Bottom pipe hitbox (from gap to screen bottom)
+export const pipeBottomHitbox = (p: Pipe): Hitbox => ({
+    left: p.x,
+    right: p.x + p.width,
+    top: p.gapY + p.gapH / 2,
+    bottom: Viewport.CANVAS_HEIGHT,
+});
+
+// Pickup hitbox, a square around its center
+export const pickupHitbox = (k: Pickup): Hitbox => ({
+    left: k.pos.x - Pickups.SIZE / 2,
+    right: k.pos.x + Pickups.SIZE / 2,
+    top: k.pos.y - Pickups.SIZE / 2,
+    bottom: k.pos.y + Pickups.SIZE / 2,
+});
+
+// Check overlap between two hitboxes (collision detection)
+export const overlaps = (a: Hitbox, b: Hitbox): boolean =>
+    a.left < b.right &&
+    a.right > b.left &&
+    a.top < b.bottom &&
+    a.bottom > b.top;
+
+// How far a bird's box is from the edges of a pipe's gap (negative where it
+// reaches past them)
+export const gapClearance = (box: Hitbox, p: Pipe): number =>
+    Math.min(
+        box.top - pipeTopHitbox(p).bottom,
+        pipeBottomHitbox(p).top - box.bottom,
+    );
+
+// Whether any opaque pixel of the bird, its top left corner at (left, top),
+// overlaps a box
+const maskOverlaps = (left: number, top: number, box: Hitbox): boolean => {
+    const c0 = Math.max(0, Math.floor(box.left - left));
+    const c1 = Math.min(bird.WIDTH - 1, Math.ceil(box.right - left) - 1);
+    const r0 = Math.max(0, Math.floor(box.top - top));
+    const r1 = Math.min(bird.HEIGHT - 1, Math.ceil(box.bottom - top) - 1);
+    for (let r = r0; r <= r1; r++) {
+        for (let c = c0; c <= c1; c++) {
+            if (BIRD_MASK[r][c] === "#") return true;
+        }
+    }
+    return false;
+};
+
+/**
+ * Whether the bird centered at (x, y) overlaps a box with its hit shape.
+ *
+ * @param shape Bird's hit shape
+ * @param x Bird center x
+ * @param y Bird center y
+ * @param box Box to check
+ * @returns Whether they overlap
+ */
+export const shapeOverlaps = (
+    shape: HitShape,
+    x: number,
+    y: number,
+    box: Hitbox,
+): boolean => {
+    if (!overlaps(birdHitbox(x, y), box)) return false;
+    if (shape === "mask") {
+        return maskOverlaps(x - bird.WIDTH / 2, y - bird.HEIGHT / 2, box);
+    }
+    if (shape === "ellipse") {
+        // The point of the box closest to the center, inside the ellipse
+        const dx =
+            (Math.min(Math.max(x, box.left), box.right) - x) / bird.WIDTH;
+        const dy =
+            (Math.min(Math.max(y, box.top), box.bottom) - y) / bird.HEIGHT;
+        return 4 * (dx * dx + dy * dy) < 1;
+    }
+    return true;
+};
+
+/**
+ * When in a tick the bird first touches a box, sweeping it from where it
+ * was to where it ends up while the box moves left, so a graze between the
+ * two positions counts and nothing is skipped however far they move.
+ *
+ * The bird's hitbox is swept exactly; a tighter shape is then checked along
+ * the stretch where the hitboxes overlap, a pixel of movement at a time.
+ *
+ * @param shape Bird's hit shape
+ * @param x Bird center x
+ * @param fromY Bird center y at the start of the tick
+ * @param toY Bird center y at the end of the tick
+ * @param box The box at the start of the tick
+ * @param dx How far the box moves left during the tick
+ * @returns Fraction of the tick at which they touch (0 to 1), or null
+ */
+export const sweepHit = (
+    shape: HitShape,
+    x: number,
+    fromY: number,
+    toY: number,
+    box: Hitbox,
+    dx: number,
+): number | null => {
+    // Seen from the box, the bird's center moves right by dx; it overlaps
+    // while it is within half the bird's size of the box on both axes
+    const dy = toY - fromY;
+    const slab = (from: number, by: number, lo: number, hi: number) => {
+        if (by === 0) {
+            return lo < from && from < hi
+                ? { enter: -Infinity, exit: Infinity }
+                : { enter: Infinity, exit: -Infinity };
+        }
+        const a = (lo - from) / by;
+        const b = (hi - from) / by;
+        return { enter: Math.min(a, b), exit: Math.max(a, b) };
+    };
+    const across = slab(
+        x,
+        dx,
+        box.left - bird.WIDTH / 2,
+        box.right + bird.WIDTH / 2,
+    );
+    const down = slab(
+        fromY,
+        dy,
+        box.top - bird.HEIGHT / 2,
+        box.bottom + bird.HEIGHT / 2,
+    );
+    const enter = Math.max(0, across.enter, down.enter);
+    const exit = Math.min(1, across.exit, down.exit);
+    if (enter >= exit) return null;
+    if (shape === "box") return enter;
+
+    const steps = Math.max(1, Math.ceil(Math.hypot(dx, dy) * (exit - enter)));
+    for (let i = 0; i <= steps; i++) {
+        const t = enter + ((exit - enter) * i) / steps;
+        if (shapeOverlaps(shape, x + dx * t, fromY + dy * t, box)) return t;
+    }
+    return null;
+};
+
+/**
+ * Which parts of a pipe the bird touches during a tick (see `sweepHit`).
+ *
+ * @param shape Bird's hit shape
+ * @param x Bird center x
+ * @param fromY Bird center y at the start of the tick
+ * @param toY Bird center y at the end of the tick
+ * @param p Pipe at the start of the tick
+ * @param dtMs How far the world moves
+ * @returns Whether the top and the bottom pipe are hit
+ */
+export const sweepPipe = (
+    shape: HitShape,
+    x: number,
+    fromY: number,
+    toY: number,
+    p: Pipe,
+    dtMs: number,
+): { top: boolean; bottom: boolean } => {
+    const dx = (p.speed * dtMs) / 1000;
+    const hits = (box: Hitbox) =>
+        sweepHit(shape, x, fromY, toY, box, dx) !== null;
+    return { top: hits(pipeTopHitbox(p)), bottom: hits(pipeBottomHitbox(p)) };
+};
+
+/** ========== State Management: Initial State and Pure Reducers ========== */
+
+// 2. Initial game state when a game starts
+export const initialState: State = {
+    timeMs: 0,
+    gameEnd: false,
+    bird: {
+        pos: {
+            // Bird starts around 30% from the left, vertically centered
+            x: Viewport.CANVAS_WIDTH * 0.3,
+            y: Viewport.CANVAS_HEIGHT / 2,
+        },
+        velY: 0, // No initial vertical velocity
+    },
+    pipes: [], // No pipes at the start
+    pickups: [],
+    effects: { shield: 0, slow: 0 }, // No power-ups
+    worldMs: 0,
+    lives: 3,
+    score: 0,
+    nextId: 1,
+    seed: Math.floor(Math.random() * 0x7fffffff), // 7. Initialize PRNG seed
+    totalPipesPlanned: 0, // 10. Will be overridden with schedule.length
+    mode: "map",
+    nextSpawnMs: Endless.FIRST_SPAWN_MS,
+    damage: defaultDamageRules,
+    invulnerableUntilMs: 0,
+    ghosts: [] as GhostList, // 12. Initialize empty list of past run traces
+    trace: null, // 12. Initialize empty trace for the current run
+    hitsMs: [],
+    scoredMs: [],
+    pickedUp: [],
+    nearestPx: Infinity, // Not in a gap
+    nearMissesMs: [],
+    lostAt: [],
+    flaps: [], // No flaps yet
+    others: [], // A single player
+};
+
+// Gap between the starting heights of consecutive players
+const PLAYER_SPACING = bird.HEIGHT * 2;
+
+// 7. Collision Handling and Random Bounce
+export const handleCollisions = (
+    s: State,
+    dtMs: number = Constants.TICK_RATE_MS,
+): CollisionOutcome => {
+    const dt = dtMs / 1000;
+
+    // Apply gravity and clamp velocity
+    const vy = Math.max(
+        -Physics.TERMINAL_VEL,
+        Math.min(Physics.TERMINAL_VEL, s.bird.velY + Physics.GRAVITY * dt),
+    );
+
+    // Predict next position and clamp within screen bounds
+    const yNextRaw = s.bird.pos.y + vy * dt;
+    const minY = bird.HEIGHT / 2;
+    const maxY = Viewport.CANVAS_HEIGHT - bird.HEIGHT / 2;
+    const yClamped = Math.max(minY, Math.min(maxY, yNextRaw));
+
+    // Check collisions: the screen edges at the end of the move, the pipes
+    // all along it (as they move too)
+    const hitTop = yNextRaw < minY;
+    const hitBottom = yNextRaw > maxY;
+    const swept = s.pipes.map(p =>
+        sweepPipe(
+            s.damage.hitShape,
+            s.bird.pos.x,
+            s.bird.pos.y,
+            yClamped,
+            p,
+            dtMs,
+        ),
+    );
+    const hitPipeTop = swept.some(h => h.top);
+    const hitPipeBottom = swept.some(h => h.bottom);
+    const collided = hitTop || hitBottom || hitPipeTop || hitPipeBottom;
+
+    // Random bounce magnitude
+    const bounce = (dir: 1 | -1) => {
+        const r = randInRange(s.seed, Physics.BOUNCE_MIN, Physics.BOUNCE_MAX);
+        return { vy: dir * Math.abs(r.value), seed: r.nextSeed };
+    };
+
+    // Apply bounce depending on where it hit
+    if (hitTop) {
+        const b = bounce(+1);
+        return { y: minY, vy: b.vy, seed: b.seed, collided };
+    }
+    if (hitBottom) {
+        const b = bounce(-1);
+        return { y: maxY, vy: b.vy, seed: b.seed, collided };
+    }
+    if (hitPipeTop) {
+        const b = bounce(+1);
+        return {
+            y: Math.min(yClamped + 1, maxY),
+            vy: b.vy,
+            seed: b.seed,
+            collided,
+        };
+    }
+    if (hitPipeBottom) {
+        const b = bounce(-1);
+        return {
+            y: Math.max(yClamped - 1, minY),
+            vy: b.vy,
+            seed: b.seed,
+            collided,
+        };
+    }
+
+    // No collision -> continue normal motion
+    const stoppedVy =
+        (yClamped === minY && vy < 0) || (yClamped === maxY && vy > 0) ? 0 : vy;
+    return { y: yClamped, vy: stoppedVy, seed: s.seed, collided };
+};
+
+// 6. A pure function reducer that generates one pipe from one line of CSV
+export const spawnPipe =
+    (spec: SpawnSpec) =>
+    (s: State): State => {
+        const p: Pipe = {
+            id: s.nextId,
+            x: Viewport.CANVAS_WIDTH,
+            gapY: spec.gapY,
+            gapH: spec.gapH,
+            passed: false, // 9. Newly spawned pipes are not yet passed
+            ageMs: 0,
+            baseGapY: spec.gapY,
+            baseGapH: spec.gapH,
+            speed: spec.speed ?? Constants.PIPE_SPEED_PX_S,
+            width: spec.width ?? Constants.PIPE_WIDTH,
+            amplitude: spec.amplitude ?? 0,
+            periodMs: spec.periodMs ?? 0,
+            gapEndH: spec.gapEndH ?? spec.gapH,
+            gapChangeMs: spec.gapChangeMs ?? 0,
+        };
+        const pickup: Pickup | undefined = spec.pickup && {
+            id: p.id,
+            kind: spec.pickup,
+            pos: pickupPos(p),
+            ageMs: 0,
+            lifetimeMs: Pickups.LIFETIME_MS,
+        };
+        return {
+            ...s,
+            nextId: s.nextId + 1,
+            pipes: [...s.pipes, p],
+            pickups: pickup ? [...s.pickups, pickup] : s.pickups,
+        };
+    };
+
+// Where a pickup riding in a pipe's gap is: in the middle of it
+const pickupPos = (p: Pipe): Vec => ({ x: p.x + p.width / 2, y: p.gapY });
+
+// Ages a pipe by dt, moving it left and updating its gap (map v2 behaviours)
+export const movePipe =
+    (dtMs: number) =>
+    (p: Pipe): Pipe => {
+        const ageMs = p.ageMs + dtMs;
+        const swing =
+            p.periodMs > 0
+                ? p.amplitude * Math.sin((2 * Math.PI * ageMs) / p.periodMs)
+                : 0;
+        const progress =
+            p.gapChangeMs > 0 ? Math.min(1, ageMs / p.gapChangeMs) : 1;
+        return {
+            ...p,
+            ageMs,
+            x: p.x - (p.speed * dtMs) / 1000,
+            gapY: p.baseGapY + swing,
+            gapH: p.baseGapH + (p.gapEndH - p.baseGapH) * progress,
+        };
+    };
+
+/**
+ * Moves pickups along with the gaps they ride in, and drops those whose pipe
+ * has gone or whose lifetime is up.
+ *
+ * @param pickups Pickups before the tick
+ * @param pipes Pipes after the tick
+ * @param dtMs How far the world moved
+ * @returns Pickups after the tick
+ */
+export const movePickups = (
+    pickups: readonly Pickup[],
+    pipes: readonly Pipe[],
+    dtMs: number,
+): Pickup[] => {
+    const byId = new Map(pipes.map(p => [p.id, p]));
+    return pickups.flatMap(k => {
+        const p = byId.get(k.id);
+        const ageMs = k.ageMs + dtMs;
+        return p && ageMs < k.lifetimeMs
+            ? [{ ...k, ageMs, pos: pickupPos(p) }]
+            : [];
+    });
+};
+
+/**
+ * One bird's part of a tick: its flight and collisions, the life it may
+ * lose, the pipes it passes and the pickups it takes. A bird that is out
+ * stays where it fell.
+ *
+ * @param s The run as the bird's player sees it (see `playerView`)
+ * @param pipes Pipes after the tick, with those passed marked
+ * @param newlyPassedCount Pipes passed this tick
+ * @param pickups Pickups after the tick that are still there to take
+ * @param dtMs How far the world moves
+ * @returns The player after the tick, the advanced seed and what it took
+ */
+const stepBird = (
+    s: State,
+    pipes: readonly Pipe[],
+    newlyPassedCount: number,
+    pickups: readonly Pickup[],
+    dtMs: number,
+): { player: Player; seed: number; taken: Pickup[] } => {
+    if (isOut(s)) return { player: playerOf(s), seed: s.seed, taken: [] };
+
+    /* -- 7. Collision Handling and Random Bounce --
+     * Delegate collision & bounce to a pure function
+     */
+    const nextTimeMs = s.timeMs + Constants.TICK_RATE_MS;
+    const col = handleCollisions(s, dtMs);
+    const nextY = col.y;
+    const nextVy = col.vy;
+    // 8. Lose a life on any collision (top/bottom screen or pipe), unless
+    // the bird is still invulnerable from an earlier hit (it only bounces)
+    // or a shield takes the hit instead
+    const hit = col.collided && !isInvulnerable(s);
+    const shielded = hit && hasEffect(s, "shield");
+    const damaged = hit && !shielded;
+    const livesLeft = damaged ? Math.max(0, s.lives - 1) : s.lives;
+
+    /* -- Pickups: ride along with their gaps, taken when the bird touches
+     * them -- */
+    const birdRect = birdHitbox(s.bird.pos.x, nextY);
+    const taken = pickups.filter(k => overlaps(birdRect, pickupHitbox(k)));
+    const count = (kind: PickupKind) =>
+        taken.filter(k => k.kind === kind).length;
+    const startEffect = (kind: EffectKind, durationMs: number) =>
+        count(kind) > 0 ? nextTimeMs + durationMs : s.effects[kind];
+
+    /* -- Near misses: the closest the bird comes to the edges of the gaps it
+     * is level with, checked as it passes them (touching anything, even
+     * harmlessly, spoils it) -- */
+    const level = pipes.filter(p => !p.passed && p.x < birdRect.right);
+    const clearance = col.collided
+        ? -Infinity
+        : Math.max(0, Math.min(...level.map(p => gapClearance(birdRect, p))));
+    const nearMiss =
+        newlyPassedCount > 0 &&
+        !col.collided &&
+        s.nearestPx >= 0 &&
+        s.nearestPx < NEAR_MISS_PX;
+    const nearestPx =
+        level.length === 0
+            ? Infinity
+            : Math.min(
+                  newlyPassedCount > 0 ? Infinity : s.nearestPx,
+                  clearance,
+              );
+
+    // Next score
+    const nextScore =
+        s.score + newlyPassedCount + count("coin") * Pickups.COIN_SCORE;
+    // Extra lives stop adding up at the cap, but never take a life away
+    const nextLives = Math.max(
+        livesLeft,
+        Math.min(Pickups.MAX_LIVES, livesLeft + count("life")),
+    );
+
+    // After losing a life, optionally restart from the next gap at rest
+    const nextGap = pipes.find(p => !p.passed);
+    const respawned = damaged && s.damage.respawn;
+    const birdY = respawned
+        ? (nextGap?.gapY ?? Viewport.CANVAS_HEIGHT / 2)
+        : nextY;
+    const birdVy = respawned ? 0 : nextVy;
+
+    // 12. Extend the current run's trace with the bird's new position (x, y)
+    const nextTrace: TraceLog = {
+        point: { x: s.bird.pos.x, y: birdY },
+        before: s.trace,
+        length: (s.trace?.length ?? 0) + 1,
+    };
+
+    return {
+        player: {
+            bird: { pos: { x: s.bird.pos.x, y: birdY }, velY: birdVy },
+            lives: nextLives,
+            score: nextScore,
+            effects: {
+                // A shield that took a hit is used up, unless another was
+                // taken
+                shield:
+                    shielded && count("shield") === 0
+                        ? 0
+                        : startEffect("shield", Pickups.SHIELD_MS),
+                slow: startEffect("slow", Pickups.SLOW_MS),
+            },
+            invulnerableUntilMs: hit
+                ? nextTimeMs + s.damage.invulnerableMs
+                : s.invulnerableUntilMs,
+            trace: nextTrace,
+            hitsMs: damaged ? [...s.hitsMs, nextTimeMs] : s.hitsMs,
+            scoredMs:
+                newlyPassedCount > 0
+                    ? [
+                          ...s.scoredMs,
+                          ...Array<number>(newlyPassedCount).fill(nextTimeMs),
+                      ]
+                    : s.scoredMs,
+            pickedUp:
+                taken.length > 0
+                    ? [
+                          ...s.pickedUp,
+                          ...taken.map(k => ({
+                              kind: k.kind,
+                              timeMs: nextTimeMs,
+                          })),
+                      ]
+                    : s.pickedUp,
+            nearestPx,
+            nearMissesMs: nearMiss
+                ? [...s.nearMissesMs, nextTimeMs]
+                : s.nearMissesMs,
+            // Where the hit happened, before any respawn
+            lostAt: damaged
+                ? [
+                      ...s.lostAt,
+                      {
+                          timeMs: nextTimeMs,
+                          worldMs: s.worldMs + dtMs,
+                          y: nextY,
+                      },
+                  ]
+                : s.lostAt,
+            flaps: s.flaps,
+        },
+        seed: col.seed,
+        taken,
+    };
+};
+
+/**
+ * Updates the state by proceeding with one time step.
+ *
+ * @param s Current state
+ * @returns Updated state
+ */
+// 5. Advanced one tick with gravity (position & velocity) -> Bird always falls
+export const tick = (s: State): State => {
+    // 8. Already Ended -> No updates
+    if (s.gameEnd) return s;
+
+    // The world moves slower in slow motion (the clock does not)
+    const dtMs = worldDtMs(s);
+
+    /* -- 6. pipes: move left & cull off-screen -- */
+    // Advance each pipe's x position to the left (and move its gap)
+    const moved = s.pipes.map(movePipe(dtMs));
+    // Cull any pipe whose right edge is past the left boundary
+    const kept = moved.filter(p => p.x > -p.width);
+
+    /* -- 9. scoring: +1 when the bird has passed a pipe -- */
+    // Bird's left edge (use this for "passed" check); every bird flies at
+    // the same x, so they all pass a pipe at once
+    const birdLeft = s.bird.pos.x - bird.WIDTH / 2;
+
+    // Make a set of previously passed pipe ids
+    const prevPassed = new Set(s.pipes.filter(p => p.passed).map(p => p.id));
+
+    // Mark pipes as passed when their right edge is left of bird's left edge
+    const updatedPipes = kept.map(p =>
+        p.passed || p.x + p.width < birdLeft ? { ...p, passed: true } : p,
+    );
+
+    // Count how many pipes became passed this tick
+    const newlyPassedCount = updatedPipes.filter(
+        p => p.passed && !prevPassed.has(p.id),
+    ).length;
+
+    // Each bird in turn, player 1 first: the seed carries on from one bird
+    // to the next, and a pickup goes to the first bird touching it
+    const birds = playersOf(s).reduce(
+        (acc, _, i) => {
+            const b = stepBird(
+                { ...playerView(s, i), seed: acc.seed },
+                updatedPipes,
+                newlyPassedCount,
+                acc.pickups,
+                dtMs,
+            );
+            return {
+                players: [...acc.players, b.player],
+                seed: b.seed,
+                pickups: acc.pickups.filter(k => !b.taken.includes(k)),
+            };
+        },
+        {
+            players: [] as Player[],
+            seed: s.seed,
+            pickups: movePickups(s.pickups, updatedPipes, dtMs),
+        },
+    );
+    const [first, ...others] = birds.players;
+
+    /* -- 10. Finish when all pipes navigated or lives run out -- */
+    // true if all planned pipes (from CSV) have already been spawned
+    const allPipesSpawned = s.nextId - 1 >= s.totalPipesPlanned;
+
+    // true if no pipes remain on the screen
+    const allPipesCleared = updatedPipes.length === 0;
+
+    // Game ends once every bird has lost its lives, or all pipes have been
+    // spawned and cleared
+    const nextGameEnd =
+        birds.players.every(isOut) || (allPipesSpawned && allPipesCleared);
+
+    /**
+     * Return the new game state
+     * - copy all properties from previous state
+     * - increment the elapsed time by one tick
+     * - update each bird's position and velocity (include random bounce if
+     *   collided)
+     * - move pipes left, remove off-screen ones, and mark newly passed pipes
+     * - advance RNG seed so next random bounce is different
+     * - decrement lives if a collision occurred outside the invulnerability
+     *   window (unless a shield took it), then start a new window (and
+     *   respawn if enabled)
+     * - move pickups with their gaps, and apply those the birds took
+     * - end a game if every bird is out / all pipes have been spawned and
+     *   cleared
+     * - increase score when a bird successfully passes through a pipe
+     * - Record each bird's path (Appends its new position to its trace)
+     *   and when (and where) it lost lives, scored or had a near miss
+     * - Preserve the list of ghost traces from past runs
+     */
+    return {
+        ...s,
+        ...first,
+        others,
+        timeMs: s.timeMs + Constants.TICK_RATE_MS,
+        pipes: updatedPipes,
+        pickups: birds.pickups,
+        worldMs: s.worldMs + dtMs,
+        seed: birds.seed,
+        gameEnd: nextGameEnd,
+        ghosts: s.ghosts,
+    };
+};
+
+// 5. Handles user input (gives the bird an upward boost)
+// Needs flapR, otherwise the bird can only fall by tick
+export const flapR = (s: State): State => ({
+    ...s,
+    bird: { ...s.bird, velY: Physics.FLAP_VELOCITY },
+    flaps: [...s.flaps, tickCount(s)], // Remember when the flap happened
+});
+
+// Flaps a player's bird (player 1 is 0); a bird that is out stays down
+export const flapPlayer =
+    (index: number) =>
+    (s: State): State => {
+        const view = playerView(s, index);
+        return isOut(view) ? s : withPlayer(s, index, playerOf(flapR(view)));
+    };
+
+// Spawns every scheduled pipe that is due at the current world time
+export const spawnDue =
+    (schedule: readonly SpawnSpec[]) =>
+    (s: State): State => {
+        const pending = schedule.slice(s.nextId - 1);
+        const dueCount = pending.findIndex(spec => spec.timeMs > s.worldMs);
+        const due = dueCount < 0 ? pending : pending.slice(0, dueCount);
+        return due.reduce((acc, spec) => spawnPipe(spec)(acc), s);
+    };
+
+// Interpolates an [easiest, hardest] pair at difficulty level t in [0, 1]
+const ramp = ([easy, hard]: readonly [number, number], t: number): number =>
+    easy + (hard - easy) * t;
+
+/**
+ * Draws whether an endless-mode pipe carries a pickup, and which one.
+ *
+ * @param seed PRNG seed
+ * @returns The pickup (if any) and the advanced seed
+ */
+const drawPickup = (
+    seed: number,
+): { kind: PickupKind | undefined; nextSeed: number } => {
+    const roll = rand01(seed);
+    if (roll.r01 >= Endless.PICKUP_CHANCE) {
+        return { kind: undefined, nextSeed: roll.nextSeed };
+    }
+    const weights = Object.entries(Endless.PICKUP_WEIGHTS) as [
+        PickupKind,
+        number,
+    ][];
+    // Where each kind's share of the total weight ends
+    const ends = weights.map(([kind], i) => ({
+        kind,
+        end: weights.slice(0, i + 1).reduce((sum, [, w]) => sum + w, 0),
+    }));
+    const pick = randInRange(roll.nextSeed, 0, ends[ends.length - 1].end);
+    return {
+        kind: (ends.find(e => pick.value < e.end) ?? ends[ends.length - 1])
+            .kind,
+        nextSeed: pick.nextSeed,
+    };
+};
+
+/**
+ * Spawns the next endless-mode pipe once it is due.
+ *
+ * The gap, and the pickup it may carry, are drawn from the state's seed, so
+ * a run is reproducible from its starting seed. Difficulty rises with the
+ * best score of the run: gaps narrow, pipes speed up and spawn closer
+ * together, and consecutive gaps may move further apart.
+ *
+ * @param s Current state
+ * @returns State with the pipe spawned and the next spawn scheduled
+ */
+export const spawnEndless = (s: State): State => {
+    if (s.worldMs < s.nextSpawnMs) return s;
+
+    const H = Viewport.CANVAS_HEIGHT;
+    const best = Math.max(...playersOf(s).map(p => p.score));
+    const t = Math.min(1, best / Endless.RAMP_SCORE);
+    const last = s.pipes[s.pipes.length - 1];
+    const prevY = last ? last.baseGapY / H : 0.5;
+    const step = ramp(Endless.MAX_STEP, t);
+    const y = randInRange(
+        s.seed,
+        Math.max(Endless.GAP_Y[0], prevY - step),
+        Math.min(Endless.GAP_Y[1], prevY + step),
+    );
+    const pickup = drawPickup(y.nextSeed);
+
+    const spec: SpawnSpec = {
+        gapY: y.value * H,
+        gapH: ramp(Endless.GAP_H, t) * H,
+        timeMs: s.nextSpawnMs,
+        speed: ramp(Endless.SPEED_PX_S, t),
+        ...(pickup.kind && { pickup: pickup.kind }),
+    };
+    return {
+        ...spawnPipe(spec)({ ...s, seed: pickup.nextSeed }),
+        nextSpawnMs: s.nextSpawnMs + ramp(Endless.SPACING_MS, t),
+    };
+};
+
+// One step of the game loop: spawn what is due, then advance one tick
+export const advance =
+    (schedule: readonly SpawnSpec[]) =>
+    (s: State): State =>
+        tick(s.mode === "endless" ? spawnEndless(s) : spawnDue(schedule)(s));
+
+/**
+ * Blends two consecutive states for drawing between physics steps.
+ *
+ * Only what is drawn moves: the birds, the pipes and the pickups are placed
+ * between their previous and current positions, everything else is taken
+ * from `curr`.
+ *
+ * @param prev State before the latest tick
+ * @param curr State after the latest tick
+ * @param alpha How far into the next tick the display is, in [0, 1]
+ * @returns `curr` with interpolated positions
+ */
+export const interpolate = (prev: State, curr: State, alpha: number): State => {
+    const lerp = (a: number, b: number) => a + (b - a) * alpha;
+    const lerpBird = (a: Bird, b: Bird): Bird => ({
+        ...b,
+        pos: { x: lerp(a.pos.x, b.pos.x), y: lerp(a.pos.y, b.pos.y) },
+    });
+    const before = new Map(prev.pipes.map(p => [p.id, p]));
+    const pickupsBefore = new Map(prev.pickups.map(k => [k.id, k]));
+    return {
+        ...curr,
+        bird: lerpBird(prev.bird, curr.bird),
+        others: curr.others.map((p, i) => {
+            const q = prev.others[i];
+            return q ? { ...p, bird: lerpBird(q.bird, p.bird) } : p;
+        }),
+        pipes: curr.pipes.map(p => {
+            const q = before.get(p.id);
+            return q
+                ? {
+                      ...p,
+                      x: lerp(q.x, p.x),
+                      gapY: lerp(q.gapY, p.gapY),
+                      gapH: lerp(q.gapH, p.gapH),
+                  }
+                : p; // Spawned this tick: nothing to blend from
+        }),
+        pickups: curr.pickups.map(k => {
+            const q = pickupsBefore.get(k.id);
+            return q
+                ? {
+                      ...k,
+                      pos: {
+                          x: lerp(q.pos.x, k.pos.x),
+                          y: lerp(q.pos.y, k.pos.y),
+                      },
+                  }
+                : k;
+        }),
+    };
+};
+
+/** ==================== Headless Simulation ==================== */
+
+// Game actions that can be fed into a run
+export type Action = "flap" | "flap2"; // Player 1's flap, and player 2's
+
+// An action stamped with the simulated time it is applied at
+export type TimedInput = Readonly<{
+    timeMs: number; // When the action happens (ms from game start)
+    action: Action;
+}>;
+
+// Everything needed to reproduce a run without a browser
+export type RunConfig = Readonly<{
+    seed: number; // Starting PRNG seed
+    schedule: readonly SpawnSpec[]; // Parsed map (unused in endless mode)
+    mode?: GameMode; // Defaults to "map"
+    damage?: DamageRules; // Defaults to defaultDamageRules
+    inputs?: readonly TimedInput[]; // Player actions in any order
+    ghosts?: GhostList; // Past runs to carry along in the state
+    players?: number; // Birds flying the run (defaults to 1)
+    maxTicks?: number; // Safety bound on the number of ticks
+}>;
+
+// Reducer for each game action
+const actionReducers: Record<Action, (s: State) => State> = {
+    flap: flapR,
+    flap2: flapPlayer(1),
+};
+
+/**
+ * Creates the state a run starts from.
+ *
+ * @param seed Starting PRNG seed
+ * @param schedule Spawn schedule of the map
+ * @param ghosts Past run traces to replay alongside
+ * @param mode Play the map, or generate pipes without end
+ * @param damage How hits are handled
+ * @param players Birds flying the run, starting one below the other
+ * @returns Initial state
+ */
+export const createState = (
+    seed: number,
+    schedule: readonly SpawnSpec[],
+    ghosts: GhostList = [],
+    mode: GameMode = "map",
+    damage: DamageRules = defaultDamageRules,
+    players = 1,
+): State => ({
+    ...initialState,
+    seed,
+    // 10. Inject plan size here (an endless run never spawns its last pipe)
+    totalPipesPlanned: mode === "endless" ? Infinity : schedule.length,
+    mode,
+    damage,
+    ghosts, // 12. Inject the list of past run traces
+    trace: null, // 12. Start with an empty trace
+    hitsMs: [],
+    scoredMs: [],
+    pickedUp: [],
+    nearMissesMs: [],
+    lostAt: [],
+    flaps: [],
+    others: Array.from({ length: players - 1 }, (_, i) => ({
+        ...playerOf(initialState),
+        bird: {
+            ...initialState.bird,
+            pos: {
+                ...initialState.bird.pos,
+                y: initialState.bird.pos.y + (i + 1) * PLAYER_SPACING,
+            },
+        },
+    })),
+});
+
+/**
+ * Steps through a run on a virtual clock and yields the state after each tick.
+ *
+ * Before every tick, the inputs due at the state's current time are applied in
+ * time order, then due pipes are spawned and the tick runs, exactly as the
+ * reducer streams of `state$` do in the browser.
+ *
+ * @param config Seed, map and inputs of the run
+ * @returns Generator of states, one per tick, until the game ends
+ */
+export function* simulate(config: RunConfig): Generator<State> {
+    const {
+        seed,
+        schedule,
+        inputs = [],
+        mode = "map",
+        damage = defaultDamageRules,
+        ghosts = [],
+        players = 1,
+        maxTicks = Infinity,
+    } = config;
+
+    const sorted = [...inputs].sort((a, b) => a.timeMs - b.timeMs);
+    const step = advance(schedule);
+
+    let s = createState(seed, schedule, ghosts, mode, damage, players);
+    let next = 0; // Index of the first input not yet applied
+
+    for (let n = 1; n <= maxTicks && !s.gameEnd; n++) {
+        while (next < sorted.length && sorted[next].timeMs <= s.timeMs) {
+            s = actionReducers[sorted[next++].action](s);
+        }
+        s = step(s);
+        yield s;
+    }
+}
+
+/**
+ * Runs a whole game headlessly.
+ *
+ * @param config Seed, map and inputs of the run
+ * @returns The last state of the run
+ */
+export const runGame = (config: RunConfig): State => {
+    let last = createState(
+        config.seed,
+        config.schedule,
+        config.ghosts,
+        config.mode,
+        config.damage,
+        config.players,
+    );
+    for (const s of simulate(config)) last = s;
+    return last;
+};
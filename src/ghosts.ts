@@ -0,0 +1,233 @@
+/** ==================== Persistent Ghost Storage ==================== */
+
+import type { GhostList, State, TraceLog } from "./engine.ts";
+import {
+    isBoolean,
+    isListOf,
+    isNumber,
+    isOneOf,
+    isRecord,
+    readList,
+    readSettings,
+    writeJson,
+} from "./storage.ts";
+import {
+    type PackedTrace,
+    isPackedTrace,
+    logPoints,
+    packTrace,
+    unpackTrace,
+} from "./trace.ts";
+
+// A finished run kept as a ghost
+export type StoredGhost = Readonly<{
+    id: number; // Unique per map, increasing with every run
+    score: number; // Score the run finished with
+    lives: number; // Lives left at the end of the run
+    recordedAt: number; // When the run finished (ms since epoch)
+    pinned: boolean; // Pinned ghosts are never evicted
+    trace: PackedTrace; // Path of the bird during the run
+    hitsMs: readonly number[]; // When the run lost a life
+    scoredMs: readonly number[]; // When the run passed a pipe
+}>;
+
+// Which unpinned ghosts survive once the cap is exceeded
+export type EvictionPolicy = "best" | "latest" | "personalBest";
+
+const evictionPolicies: readonly EvictionPolicy[] = [
+    "best",
+    "latest",
+    "personalBest",
+];
+
+// Which stored ghosts a run races against
+export type RaceChoice = "all" | "personalBest" | "lastN";
+
+const raceChoices: readonly RaceChoice[] = ["all", "personalBest", "lastN"];
+
+export type GhostSettings = Readonly<{
+    policy: EvictionPolicy;
+    cap: number; // Maximum number of unpinned ghosts per map
+    race: RaceChoice;
+    raceCount: number; // N of "lastN"
+    opacity: number; // Of ghost birds, labels and markers (0 to 1)
+}>;
+
+export const defaultGhostSettings: GhostSettings = {
+    policy: "latest",
+    cap: 5,
+    race: "all",
+    raceCount: 3,
+    opacity: 0.4,
+};
+
+// Storage keys
+const ghostsKey = (mapHash: string) => `flappy-bird:ghosts:${mapHash}`;
+const settingsKey = "flappy-bird:ghost-settings";
+
+/* -- Pure ghost list transitions -- */
+
+// Orders unpinned ghosts by what the policy prefers to keep first
+const preferred: Record<
+    EvictionPolicy,
+    (a: StoredGhost, b: StoredGhost) => number
+> = {
+    best: (a, b) => b.score - a.score || b.id - a.id,
+    latest: (a, b) => b.id - a.id,
+    personalBest: (a, b) => b.score - a.score || b.id - a.id,
+};
+
+/**
+ * Drops unpinned ghosts that exceed the cap under the given policy.
+ *
+ * @param ghosts Ghosts of one map
+ * @param settings Cap and eviction policy
+ * @returns Surviving ghosts in recording order
+ */
+export const evict = (
+    ghosts: readonly StoredGhost[],
+    { policy, cap }: GhostSettings,
+): StoredGhost[] => {
+    const limit = policy === "personalBest" ? Math.min(1, cap) : cap;
+    const kept = new Set(
+        ghosts
+            .filter(g => !g.pinned)
+            .sort(preferred[policy])
+            .slice(0, Math.max(0, limit))
+            .map(g => g.id),
+    );
+    return ghosts.filter(g => g.pinned || kept.has(g.id));
+};
+
+// Id the next ghost recorded on a map gets
+export const nextGhostId = (ghosts: readonly StoredGhost[]): number =>
+    Math.max(0, ...ghosts.map(g => g.id)) + 1;
+
+/**
+ * Adds a finished run as a new ghost, then applies the eviction policy.
+ *
+ * @param ghosts Ghosts of the map the run was played on
+ * @param run Score and trace of the run
+ * @param settings Cap and eviction policy
+ * @param recordedAt When the run finished
+ * @returns Updated ghosts
+ */
+export const addGhost = (
+    ghosts: readonly StoredGhost[],
+    run: Pick<State, "score" | "lives" | "trace" | "hitsMs" | "scoredMs">,
+    settings: GhostSettings,
+    recordedAt: number = Date.now(),
+): StoredGhost[] =>
+    evict(
+        [
+            ...ghosts,
+            {
+                id: nextGhostId(ghosts),
+                score: run.score,
+                lives: run.lives,
+                recordedAt,
+                pinned: false,
+                trace: packTrace(logPoints(run.trace)),
+                hitsMs: run.hitsMs,
+                scoredMs: run.scoredMs,
+            },
+        ],
+        settings,
+    );
+
+// Pins or unpins one ghost
+export const togglePin =
+    (id: number) =>
+    (ghosts: readonly StoredGhost[]): StoredGhost[] =>
+        ghosts.map(g => (g.id === id ? { ...g, pinned: !g.pinned } : g));
+
+// Removes every ghost that is not pinned
+export const clearUnpinned = (ghosts: readonly StoredGhost[]): StoredGhost[] =>
+    ghosts.filter(g => g.pinned);
+
+// Stored ghosts a run races against, in recording order
+export const raceGhosts = (
+    ghosts: readonly StoredGhost[],
+    { race, raceCount }: GhostSettings,
+): StoredGhost[] => {
+    const picked =
+        race === "personalBest"
+            ? [...ghosts].sort(preferred.best).slice(0, 1)
+            : race === "lastN"
+              ? [...ghosts].sort(preferred.latest).slice(0, raceCount)
+              : ghosts;
+    return ghosts.filter(g => picked.includes(g));
+};
+
+// Ghosts to hand to the game state
+export const ghostTraces = (ghosts: readonly StoredGhost[]): GhostList =>
+    ghosts.map(g => ({
+        id: g.id,
+        score: g.score,
+        crashed: g.lives <= 0,
+        trace: unpackTrace(g.trace),
+        hitsMs: g.hitsMs,
+        scoredMs: g.scoredMs,
+    }));
+
+/**
+ * How far a run is ahead of (positive) or behind (negative) the best ghost it
+ * races, in pipes passed so far.
+ *
+ * @param s Current state
+ * @returns Pipes ahead, or undefined with no ghost to race
+ */
+export const raceGap = (s: State): number | undefined => {
+    const best = [...s.ghosts].sort(
+        (a, b) => b.score - a.score || b.id - a.id,
+    )[0];
+    return best
+        ? s.scoredMs.length - best.scoredMs.filter(t => t <= s.timeMs).length
+        : undefined;
+};
+
+/* -- Persistence (side effects) -- */
+
+// Checks a ghost read back from storage
+const isStoredGhost = (v: unknown): v is StoredGhost =>
+    isRecord(v) &&
+    isNumber(v.id) &&
+    isNumber(v.score) &&
+    isNumber(v.lives) &&
+    isNumber(v.recordedAt) &&
+    isBoolean(v.pinned) &&
+    isPackedTrace(v.trace) &&
+    isListOf(isNumber)(v.hitsMs) &&
+    isListOf(isNumber)(v.scoredMs);
+
+// Ghosts saved for a map (empty if none); ghosts saved in an older format
+// are dropped
+export const loadGhosts = (
+    mapHash: string,
+    storage: Storage = localStorage,
+): StoredGhost[] => readList(storage, ghostsKey(mapHash), isStoredGhost);
+
+// Saves the ghosts of a map
+export const saveGhosts = (
+    mapHash: string,
+    ghosts: readonly StoredGhost[],
+    storage: Storage = localStorage,
+): void => writeJson(storage, ghostsKey(mapHash), ghosts);
+
+// Saved ghost settings (defaults if none)
+export const loadGhostSettings = (
+    storage: Storage = localStorage,
+): GhostSettings =>
+    readSettings(storage, settingsKey, defaultGhostSettings, {
+        policy: isOneOf(evictionPolicies),
+        cap: isNumber,
+        race: isOneOf(raceChoices),
+        raceCount: isNumber,
+        opacity: isNumber,
+    });
+
+// Saves the ghost settings
+export const saveGhostSettings = (
+    settings: GhostSettings,
+    storage: Storage = localStorage,
+): void => writeJson(storage, settingsKey, settings);
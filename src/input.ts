@@ -0,0 +1,330 @@
+/** ==================== Input Bindings ==================== */
+
+import {
+    EMPTY,
+    Observable,
+    animationFrameScheduler,
+    combineLatest,
+    distinctUntilChanged,
+    filter,
+    from,
+    fromEvent,
+    interval,
+    map,
+    merge,
+    mergeMap,
+    scan,
+    startWith,
+    take,
+    tap,
+} from "rxjs";
+
+import {
+    isListOf,
+    isNumber,
+    isOneOf,
+    isRecord,
+    readJson,
+    writeJson,
+} from "./storage.ts";
+
+// What the player can ask the game to do
+export type GameAction =
+    "flap" | "flap2" | "pause" | "restart" | "rewind" | "checkpoint";
+
+export const gameActions: readonly GameAction[] = [
+    "flap",
+    "flap2", // Player 2, in two-player runs
+    "pause",
+    "restart",
+    "rewind", // Practice mode, held
+    "checkpoint", // Practice mode
+];
+
+export type InputSource = "keyboard" | "pointer" | "gamepad";
+
+// A game action, with when it happened (same clock as performance.now())
+export type InputEvent = Readonly<{
+    action: GameAction;
+    timeMs: number;
+    source: InputSource;
+}>;
+
+// Which physical inputs trigger each action
+export type Bindings = Readonly<{
+    keys: Readonly<Record<GameAction, readonly string[]>>; // KeyboardEvent.code
+    buttons: Readonly<Record<GameAction, readonly number[]>>; // Gamepad buttons
+    pointer: GameAction | null; // Action of a tap or click on the canvas
+}>;
+
+// A physical input captured while rebinding
+export type Captured = Readonly<
+    { kind: "key"; code: string } | { kind: "button"; index: number }
+>;
+
+export const defaultBindings: Bindings = {
+    keys: {
+        flap: ["Space", "ArrowUp"],
+        flap2: ["Enter"],
+        pause: ["KeyP", "Escape"],
+        restart: ["KeyR"],
+        rewind: ["KeyZ"],
+        checkpoint: ["KeyC"],
+    },
+    buttons: {
+        flap: [0], // A / Cross
+        flap2: [1], // B / Circle
+        pause: [9], // Start / Options
+        restart: [8], // Back / Share
+        rewind: [4], // Left bumper
+        checkpoint: [5], // Right bumper
+    },
+    pointer: "flap",
+};
+
+// Storage key
+const bindingsKey = "flappy-bird:bindings";
+
+/* -- Pure binding transitions -- */
+
+/**
+ * Binds a captured input to an action, taking it away from any other action.
+ *
+ * @param bindings Current bindings
+ * @param action Action to bind
+ * @param input Key or gamepad button that was pressed
+ * @returns Updated bindings
+ */
+export const rebind = (
+    bindings: Bindings,
+    action: GameAction,
+    input: Captured,
+): Bindings => {
+    const assign = <T>(
+        table: Readonly<Record<GameAction, readonly T[]>>,
+        value: T,
+    ): Record<GameAction, readonly T[]> =>
+        gameActions.reduce(
+            (acc, a) => ({
+                ...acc,
+                [a]: a === action ? [value] : table[a].filter(v => v !== value),
+            }),
+            {} as Record<GameAction, readonly T[]>,
+        );
+
+    return input.kind === "key"
+        ? { ...bindings, keys: assign(bindings.keys, input.code) }
+        : { ...bindings, buttons: assign(bindings.buttons, input.index) };
+};
+
+// Human-readable list of what triggers an action
+export const describeBinding = (
+    bindings: Bindings,
+    action: GameAction,
+): string =>
+    [
+        ...bindings.keys[action],
+        ...bindings.buttons[action].map(b => `pad ${b}`),
+        ...(bindings.pointer === action ? ["tap"] : []),
+    ].join(", ") || "unbound";
+
+// The action bound to a key or button, if any
+const actionFor = <T>(
+    table: Readonly<Record<GameAction, readonly T[]>>,
+    value: T,
+): GameAction | undefined => gameActions.find(a => table[a].includes(value));
+
+/* -- Physical inputs (side effects) -- */
+
+// Whether a key press is meant for a form field rather than the game
+const isTyping = (e: KeyboardEvent): boolean =>
+    e.target instanceof HTMLInputElement ||
+    e.target instanceof HTMLSelectElement ||
+    e.target instanceof HTMLTextAreaElement;
+
+// Key presses (auto-repeat and typing in form fields ignored)
+const keyDown$ = (): Observable<KeyboardEvent> =>
+    fromEvent<KeyboardEvent>(document, "keydown").pipe(
+        filter(e => !e.repeat && !isTyping(e)),
+    );
+
+// Gamepad buttons held down, polled once per animation frame
+const gamepadHeld$ = (): Observable<Set<number>> =>
+    typeof navigator.getGamepads !== "function"
+        ? EMPTY
+        : interval(0, animationFrameScheduler).pipe(
+              map(() => {
+                  const pressed = navigator
+                      .getGamepads()
+                      .flatMap(pad =>
+                          (pad?.buttons ?? []).flatMap((b, i) =>
+                              b.pressed ? [i] : [],
+                          ),
+                      );
+                  return new Set(pressed);
+              }),
+          );
+
+// Gamepad buttons as they go down
+const gamepadPresses$ = (): Observable<{ index: number; timeMs: number }> =>
+    gamepadHeld$().pipe(
+        scan(
+            (acc, held) => ({
+                held,
+                down: [...held].filter(i => !acc.held.has(i)),
+            }),
+            { held: new Set<number>(), down: [] as number[] },
+        ),
+        mergeMap(({ down }) =>
+            from(down.map(index => ({ index, timeMs: performance.now() }))),
+        ),
+    );
+
+/**
+ * Turns keyboard, pointer and gamepad input into timestamped game actions.
+ *
+ * @param bindings Which inputs trigger which actions
+ * @param target Element that taps and clicks are read from
+ * @returns Observable of game actions
+ */
+export const input$ = (
+    bindings: Bindings,
+    target: Element,
+): Observable<InputEvent> => {
+    const keys$ = keyDown$().pipe(
+        map(e => ({ e, action: actionFor(bindings.keys, e.code) })),
+        filter(
+            (k): k is { e: KeyboardEvent; action: GameAction } =>
+                k.action !== undefined,
+        ),
+        tap(({ e }) => e.preventDefault()), // No page scrolling on Space
+        map(({ e, action }): InputEvent => ({
+            action,
+            timeMs: e.timeStamp,
+            source: "keyboard",
+        })),
+    );
+
+    const pointer = bindings.pointer;
+    const taps$: Observable<InputEvent> =
+        pointer === null
+            ? EMPTY
+            : fromEvent<PointerEvent>(target, "pointerdown").pipe(
+                  tap(e => e.preventDefault()), // No emulated mouse events
+                  map(e => ({
+                      action: pointer,
+                      timeMs: e.timeStamp,
+                      source: "pointer",
+                  })),
+              );
+
+    const buttons$ = gamepadPresses$().pipe(
+        map(({ index, timeMs }) => ({
+            action: actionFor(bindings.buttons, index),
+            timeMs,
+        })),
+        filter(
+            (b): b is { action: GameAction; timeMs: number } =>
+                b.action !== undefined,
+        ),
+        map((b): InputEvent => ({ ...b, source: "gamepad" })),
+    );
+
+    return merge(keys$, taps$, buttons$);
+};
+
+/**
+ * Whether an action is being held, for actions that last as long as their
+ * key or button is down (taps are not holds).
+ *
+ * @param bindings Which inputs trigger which actions
+ * @param action Action to watch
+ * @returns Observable of whether any of its keys or buttons is down
+ */
+export const held$ = (
+    bindings: Bindings,
+    action: GameAction,
+): Observable<boolean> => {
+    const codes = bindings.keys[action];
+    const buttons = bindings.buttons[action];
+
+    // Keys of the action that are down; leaving the window lets go of all
+    const keys$ = merge(
+        keyDown$().pipe(
+            filter(e => codes.includes(e.code)),
+            map(e => (down: Set<string>) => new Set([...down, e.code])),
+        ),
+        fromEvent<KeyboardEvent>(document, "keyup").pipe(
+            map(
+                e => (down: Set<string>) =>
+                    new Set([...down].filter(c => c !== e.code)),
+            ),
+        ),
+        fromEvent(window, "blur").pipe(map(() => () => new Set<string>())),
+    ).pipe(
+        scan((down, f) => f(down), new Set<string>()),
+        map(down => down.size > 0),
+        startWith(false),
+    );
+
+    const buttons$ = gamepadHeld$().pipe(
+        map(down => buttons.some(b => down.has(b))),
+        startWith(false),
+    );
+
+    return combineLatest([keys$, buttons$]).pipe(
+        map(([key, button]) => key || button),
+        distinctUntilChanged(),
+    );
+};
+
+// The next key or gamepad button pressed, for rebinding
+export const capture$ = (): Observable<Captured> =>
+    merge(
+        keyDown$().pipe(
+            tap(e => e.preventDefault()),
+            map((e): Captured => ({ kind: "key", code: e.code })),
+        ),
+        gamepadPresses$().pipe(
+            map(({ index }): Captured => ({ kind: "button", index })),
+        ),
+    ).pipe(take(1));
+
+/* -- Persistence (side effects) -- */
+
+const isString = (v: unknown): v is string => typeof v === "string";
+
+// The saved inputs of each action, leaving out any not in the expected shape
+const savedInputs = <T>(
+    saved: unknown,
+    isInput: (v: unknown) => v is T,
+): Partial<Record<GameAction, readonly T[]>> =>
+    isRecord(saved)
+        ? Object.fromEntries(
+              gameActions
+                  .filter(a => isListOf(isInput)(saved[a]))
+                  .map(a => [a, saved[a]]),
+          )
+        : {};
+
+// Saved bindings (defaults for anything not saved, or not readable)
+export const loadBindings = (storage: Storage = localStorage): Bindings => {
+    const saved = readJson(storage, bindingsKey, {}, isRecord);
+    const pointer = saved.pointer;
+    return {
+        keys: { ...defaultBindings.keys, ...savedInputs(saved.keys, isString) },
+        buttons: {
+            ...defaultBindings.buttons,
+            ...savedInputs(saved.buttons, isNumber),
+        },
+        pointer:
+            pointer === null || isOneOf(gameActions)(pointer)
+                ? pointer
+                : defaultBindings.pointer,
+    };
+};
+
+export const saveBindings = (
+    bindings: Bindings,
+    storage: Storage = localStorage,
+): void => writeJson(storage, bindingsKey, bindings);
@@ -3,411 +3,272 @@
 import "./style.css";
 
 import {
+    EMPTY,
     Observable,
+    animationFrameScheduler,
     catchError,
+    combineLatest,
+    connect,
+    debounceTime,
+    distinctUntilChanged,
     filter,
+    from,
     fromEvent,
+    ignoreElements,
     interval,
     map,
+    mergeMap,
+    of,
+    pairwise,
     scan,
+    share,
+    shareReplay,
+    skip,
+    startWith,
+    switchAll,
     switchMap,
     take,
+    takeUntil,
+    takeWhile,
+    timer,
     merge, // Added
-    timer, // Added
     BehaviorSubject, // 12. Added
     withLatestFrom, // 12. Added
     tap, // 12. Added
 } from "rxjs";
 import { fromFetch } from "rxjs/fetch";
-
-/** ==================== Constants ==================== */
-
-const Viewport = {
-    CANVAS_WIDTH: 600,
-    CANVAS_HEIGHT: 400,
-} as const;
-
-const bird = {
-    WIDTH: 42,
-    HEIGHT: 30,
-} as const;
-
-const Constants = {
-    PIPE_WIDTH: 50,
-    PIPE_SPEED_PX_S: 150, // 6. Pipe horizontal speed in pixels per second
-    TICK_RATE_MS: 16, // 1. Might need to change this!
-} as const;
-
-// 5. Physical constants for a flappy bird
-const Physics = {
-    GRAVITY: 1200,
-    FLAP_VELOCITY: -350,
-    TERMINAL_VEL: 600, // Upper bound velocity |v| <= 600
-    BOUNCE_MIN: 220, // 7. Bounce lower bound
-    BOUNCE_MAX: 420, // 7. Bounce upper bound
-};
-
-/** ==================== User input ==================== */
-
-type Key = "Space";
-
-/** ==================== Data Types ==================== */
-
-/* -- 2. Entities (Game Data Types) -- */
-// Represents a 2D vector (used for positions)
-type Vec = Readonly<{ x: number; y: number }>;
-
-// Represents the bird entity with position and vertical velocity
-type Bird = Readonly<{
-    pos: Vec; // Center position of the bird
-    velY: number; // Vertical velocity (+ = downward)
-}>;
-
-// Represents a pipe obstacle with a vertical gap
-type Pipe = Readonly<{
-    id: number; // Unique identifier to match pipe with its SVG element
-    x: number; // x-coordinate of the left side of the pipe
-    gapY: number; // Vertical center of the gap
-    gapH: number; // Height of the gap
-    passed: boolean; // 9. If the bird has already passed this pipe
-}>;
-
-// 3. Represents a scheduled pipe spawn (parsed from CSV)
-type SpawnSpec = Readonly<{
-    gapY: number; // Vertical center of the gap (pixels)
-    gapH: number; // Gap height (pixels)
-    timeMs: number; // When the pipe should appear (ms from game start)
-}>;
-
-// 7. Collision Detection:
-// -> Shared type for all rectangular hitboxes (Helper functions)
-type Hitbox = Readonly<{
-    left: number;
-    right: number;
-    top: number;
-    bottom: number;
-}>;
-
-// 7. Types for Collision Handling and Random Bounce
-type CollisionOutcome = Readonly<{
-    y: number; // New bird y
-    vy: number; // New bird vy
-    seed: number; // Advanced RNG seed
-    collided: boolean; // To check if any collision happened
-}>;
-
-/* -- 12. Ghost Replay Data Types -- */
-type Trace = ReadonlyArray<Vec>; // The path of the bird during a single run
-type GhostList = ReadonlyArray<Trace>; // The collection of all past paths
-
-// 2. State processing
-// -> The main immutable game state, updated each tick
-type State = Readonly<{
-    timeMs: number; // Elapsed game time in ms
-    gameEnd: boolean; // Whether the game has ended
-    bird: Bird; // Current bird status
-    pipes: readonly Pipe[]; // Active pipes on screen
-    lives: number; // Remaining lives (start with 3)
-    score: number; // Current player score
-    nextId: number; // 6. Unique ID counter for spawns
-    seed: number; // 7. PRNG seed
-    totalPipesPlanned: number; // 10. Total number of pipes in CSV
-    ghosts: GhostList; // 12. List of traces from all past runs
-    trace: Trace; // 12. Record of the current run
-}>;
+import {
+    Viewport,
+    bird,
+    Constants,
+    Pickups,
+    type Bird,
+    type DamageRules,
+    type GameMode,
+    type HitShape,
+    type Pipe,
+    type Pickup,
+    type PickupKind,
+    type SpawnSpec,
+    type GhostList,
+    type State,
+    type Vec,
+    advance,
+    createState,
+    defaultDamageRules,
+    flapPlayer,
+    interpolate,
+    playerView,
+} from "./engine.ts";
+import {
+    type GhostSettings,
+    type StoredGhost,
+    addGhost,
+    clearUnpinned,
+    defaultGhostSettings,
+    evict,
+    ghostTraces,
+    loadGhostSettings,
+    loadGhosts,
+    nextGhostId,
+    raceGap,
+    raceGhosts,
+    saveGhostSettings,
+    saveGhosts,
+    togglePin,
+} from "./ghosts.ts";
+import { pilot } from "./autopilot.ts";
+import {
+    type EditorState,
+    type Grab,
+    type GrabPart,
+    type HeatCell,
+    addPipe,
+    birdTimelineMs,
+    deletePipe,
+    dragPipe,
+    duplicatePipe,
+    editPipe,
+    emptyEditor,
+    envelopeOutline,
+    heatCells,
+    moveCursor,
+    openMap,
+    selectPipe,
+    testSchedule,
+    timelineTime,
+    timelineWidth,
+    timelineX,
+} from "./editor.ts";
+import {
+    type Bindings,
+    type GameAction,
+    type InputEvent,
+    capture$,
+    defaultBindings,
+    describeBinding,
+    gameActions,
+    held$,
+    input$,
+    loadBindings,
+    rebind,
+    saveBindings,
+} from "./input.ts";
+import {
+    type MapError,
+    builtInMapCsv,
+    formatMapCsv,
+    formatMapError,
+    parseMapCsv,
+    readMapCsv,
+    withFallbackMap,
+} from "./map.ts";
+import {
+    type Renderer,
+    type RendererKind,
+    type ViewSettings,
+    BIRD_SPRITE,
+    MARKER_SIZE,
+    SHIELD_RADIUS,
+    effectsText,
+    extraGhostCount,
+    gapEdges,
+    ghostLabel,
+    ghostMarkers,
+    ghostTint,
+    isBirdShown,
+    isDimmed,
+    isPickupDimmed,
+    isShielded,
+    makeCanvasRenderer,
+    pickupStyle,
+    playerTint,
+    rendererKind,
+    syntheticGhosts,
+} from "./renderer.ts";
+import {
+    type Replay,
+    courseHash,
+    createReplay,
+    divergenceWarnings,
+    exportReplay,
+    importReplay,
+    replayStates,
+} from "./replay.ts";
+import {
+    type ScoreEntry,
+    bestEntry,
+    insertScore,
+    loadInitials,
+    loadScores,
+    normaliseInitials,
+    qualifies,
+    saveInitials,
+    saveScores,
+} from "./scores.ts";
+import {
+    type Frame,
+    type Scene,
+    type SceneEvent,
+    hoverOffset,
+    isRunning,
+    nextScene,
+    readyScene,
+    resultsOf,
+    titleScene,
+} from "./scene.ts";
+import {
+    type Checkpoint,
+    type History,
+    type PracticeStatus,
+    REWIND_SPEED,
+    addCheckpoint,
+    historyCheckpoints,
+    pipeCheckpoint,
+    pushHistory,
+    rewind,
+} from "./practice.ts";
+import {
+    type AudioSettings,
+    type SoundEvent,
+    defaultAudioSettings,
+    loadAudioSettings,
+    makeSoundPlayer,
+    saveAudioSettings,
+    soundEvents,
+} from "./audio.ts";
+import { type FlightEnvelope, flightEnvelope } from "./solvability.ts";
+import {
+    type RunStats,
+    type StatsEntry,
+    HEAT_CELL_MS,
+    addRun,
+    deadliestCell,
+    deathHeatmap,
+    exportStats,
+    keepsRun,
+    loadStats,
+    runStats,
+    saveStats,
+} from "./stats.ts";
+import { traceAt } from "./trace.ts";
 
 /** ==================== Global Store ==================== */
 
-// 12. Stream that stores all ghost traces across game sessions
-const ghostStore$ = new BehaviorSubject<GhostList>([]);
-
-/** ==================== Helper Functions ==================== */
-
-/* -- 7. Pure RNG Helper Function -- */
-abstract class RNG {
-    private static m = 0x80000000; // 2^31, modulus
-    private static a = 1103515245; // multiplier
-    private static c = 12345; // increment
-
-    // Compute next hash value from given seed
-    static hash = (seed: number) => (RNG.a * seed + RNG.c) % RNG.m;
-
-    // Scale hash to the range [-1, 1]
-    static scale = (hash: number) => (2 * hash) / (RNG.m - 1) - 1;
-}
-
-// Return random number in [0,1] and updated seed
-const rand01 = (seed: number) => {
-    const h = RNG.hash(seed);
-    const r01 = (RNG.scale(h) + 1) / 2;
-    return { nextSeed: h, r01 };
-};
-
-// Return random number in [lo, hi] and updated seed
-const randInRange = (seed: number, lo: number, hi: number) => {
-    const { nextSeed, r01 } = rand01(seed);
-    return { nextSeed, value: lo + r01 * (hi - lo) };
-};
-
-/* -- 7. Collision Detection Utilities -- */
-// Bird's hitbox computed from its center (x,y)
-const birdHitbox = (x: number, y: number): Hitbox => ({
-    left: x - bird.WIDTH / 2,
-    right: x + bird.WIDTH / 2,
-    top: y - bird.HEIGHT / 2,
-    bottom: y + bird.HEIGHT / 2,
-});
-
-// Top pipe hitbox (from screen top to gap)
-const pipeTopHitbox = (p: Pipe): Hitbox => ({
-    left: p.x,
-    right: p.x + Constants.PIPE_WIDTH,
-    top: 0,
-    bottom: p.gapY - p.gapH / 2,
-});
-
-// Bottom pipe hitbox (from gap to screen bottom)
-const pipeBottomHitbox = (p: Pipe): Hitbox => ({
-    left: p.x,
-    right: p.x + Constants.PIPE_WIDTH,
-    top: p.gapY + p.gapH / 2,
-    bottom: Viewport.CANVAS_HEIGHT,
-});
-
-// Check overlap between two hitboxes (collision detection)
-const overlaps = (a: Hitbox, b: Hitbox): boolean =>
-    a.left < b.right &&
-    a.right > b.left &&
-    a.top < b.bottom &&
-    a.bottom > b.top;
-
-/** ========== State Management: Initial State and Pure Reducers ========== */
-
-// 2. Initial game state when a game starts
-const initialState: State = {
-    timeMs: 0,
-    gameEnd: false,
-    bird: {
-        pos: {
-            // Bird starts around 30% from the left, vertically centered
-            x: Viewport.CANVAS_WIDTH * 0.3,
-            y: Viewport.CANVAS_HEIGHT / 2,
-        },
-        velY: 0, // No initial vertical velocity
-    },
-    pipes: [], // No pipes at the start
-    lives: 3,
-    score: 0,
-    nextId: 1,
-    seed: Math.floor(Math.random() * 0x7fffffff), // 7. Initialize PRNG seed
-    totalPipesPlanned: 0, // 10. Will be overridden with schedule.length
-    ghosts: [] as GhostList, // 12. Initialize empty list of past run traces
-    trace: [] as Trace, // 12. Initialize empty trace for the current run
-};
-
-// 7. Collision Handling and Random Bounce
-const handleCollisions = (s: State): CollisionOutcome => {
-    const dt = Constants.TICK_RATE_MS / 1000;
-
-    // Apply gravity and clamp velocity
-    const vy = Math.max(
-        -Physics.TERMINAL_VEL,
-        Math.min(Physics.TERMINAL_VEL, s.bird.velY + Physics.GRAVITY * dt),
-    );
-
-    // Predict next position and clamp within screen bounds
-    const yNextRaw = s.bird.pos.y + vy * dt;
-    const minY = bird.HEIGHT / 2;
-    const maxY = Viewport.CANVAS_HEIGHT - bird.HEIGHT / 2;
-    const yClamped = Math.max(minY, Math.min(maxY, yNextRaw));
-
-    // Build hitboxes and check collisions
-    const birdRect = birdHitbox(s.bird.pos.x, yClamped);
-    const hitTop = yNextRaw < minY;
-    const hitBottom = yNextRaw > maxY;
-    const hitPipeTop = s.pipes.some(p => overlaps(birdRect, pipeTopHitbox(p)));
-    const hitPipeBottom = s.pipes.some(p =>
-        overlaps(birdRect, pipeBottomHitbox(p)),
-    );
-    const collided = hitTop || hitBottom || hitPipeTop || hitPipeBottom;
-
-    // Random bounce magnitude
-    const bounce = (dir: 1 | -1) => {
-        const r = randInRange(s.seed, Physics.BOUNCE_MIN, Physics.BOUNCE_MAX);
-        return { vy: dir * Math.abs(r.value), seed: r.nextSeed };
-    };
-
-    // Apply bounce depending on where it hit
-    if (hitTop) {
-        const b = bounce(+1);
-        return { y: minY, vy: b.vy, seed: b.seed, collided };
-    }
-    if (hitBottom) {
-        const b = bounce(-1);
-        return { y: maxY, vy: b.vy, seed: b.seed, collided };
-    }
-    if (hitPipeTop) {
-        const b = bounce(+1);
-        return {
-            y: Math.min(yClamped + 1, maxY),
-            vy: b.vy,
-            seed: b.seed,
-            collided,
-        };
-    }
-    if (hitPipeBottom) {
-        const b = bounce(-1);
-        return {
-            y: Math.max(yClamped - 1, minY),
-            vy: b.vy,
-            seed: b.seed,
-            collided,
-        };
-    }
-
-    // No collision -> continue normal motion
-    const stoppedVy =
-        (yClamped === minY && vy < 0) || (yClamped === maxY && vy > 0) ? 0 : vy;
-    return { y: yClamped, vy: stoppedVy, seed: s.seed, collided };
-};
+// 12. Stream that stores the ghosts of the loaded map across game sessions
+const ghostStore$ = new BehaviorSubject<readonly StoredGhost[]>([]);
 
-// 6. A pure function reducer that generates one pipe from one line of CSV
-const spawnPipe =
-    (spec: SpawnSpec) =>
-    (s: State): State => {
-        const p: Pipe = {
-            id: s.nextId,
-            x: Viewport.CANVAS_WIDTH,
-            gapY: spec.gapY,
-            gapH: spec.gapH,
-            passed: false, // 9. Newly spawned pipes are not yet passed
-        };
-        return { ...s, nextId: s.nextId + 1, pipes: [...s.pipes, p] };
-    };
+// Hash of the loaded map, the key its ghosts are stored under
+const mapHash$ = new BehaviorSubject<string>("");
 
-/**
- * Updates the state by proceeding with one time step.
- *
- * @param s Current state
- * @returns Updated state
- */
-// 5. Advanced one tick with gravity (position & velocity) -> Bird always falls
-const tick = (s: State): State => {
-    // 8. Already Ended -> No updates
-    if (s.gameEnd) return s;
+// Cap and eviction policy applied to stored ghosts
+const ghostSettings$ = new BehaviorSubject<GhostSettings>(defaultGhostSettings);
 
-    // The time step per tick
-    const dt = Constants.TICK_RATE_MS / 1000; // ms -> s
+// Applies a transition to the ghost list
+const updateGhosts = (
+    f: (ghosts: readonly StoredGhost[]) => StoredGhost[],
+): void => ghostStore$.next(f(ghostStore$.getValue()));
 
-    /* -- 7. Collision Handling and Random Bounce --
-     * Delegate collision & bounce to a pure function
-     */
-    const col = handleCollisions(s);
-    const nextY = col.y;
-    const nextVy = col.vy;
-    const nextSeed = col.seed;
-    // 8. Lose a life on any collision (top/bottom screen or pipe)
-    const nextLives = col.collided ? Math.max(0, s.lives - 1) : s.lives;
+// Replay of the most recently finished run, if any
+const lastReplay$ = new BehaviorSubject<Replay | undefined>(undefined);
 
-    /* -- 6. pipes: move left & cull off-screen -- */
-    // Advance each pipe's x position to the left
-    const moved = s.pipes.map(p => ({
-        ...p,
-        x: p.x - Constants.PIPE_SPEED_PX_S * dt,
-    }));
-    // Cull any pipe whose right edge is past the left boundary
-    const kept = moved.filter(p => p.x > -Constants.PIPE_WIDTH);
+// High-score table of the loaded map (or of endless mode)
+const scores$ = new BehaviorSubject<readonly ScoreEntry[]>([]);
 
-    /* -- 9. scoring: +1 when the bird has passed a pipe -- */
-    // Bird's left edge (use this for "passed" check)
-    const birdLeft = s.bird.pos.x - bird.WIDTH / 2;
+// What each bird did in the most recently finished run
+const lastStats$ = new BehaviorSubject<readonly RunStats[]>([]);
 
-    // Make a set of previously passed pipe ids
-    const prevPassed = new Set(s.pipes.filter(p => p.passed).map(p => p.id));
+// Statistics of the player's runs of the loaded map (or of endless mode)
+const statsHistory$ = new BehaviorSubject<readonly StatsEntry[]>([]);
 
-    // Mark pipes as passed when their right edge is left of bird's left edge
-    const updatedPipes = kept.map(p =>
-        p.passed || p.x + Constants.PIPE_WIDTH < birdLeft
-            ? { ...p, passed: true }
-            : p,
-    );
+// Qualifying run waiting for the player's initials
+const pendingScore$ = new BehaviorSubject<ScoreEntry | undefined>(undefined);
 
-    // Count how many pipes became passed this tick
-    const newlyPassedCount = updatedPipes.filter(
-        p => p.passed && !prevPassed.has(p.id),
-    ).length;
+// Whether the autopilot is flying (demo mode)
+const autopilot$ = new BehaviorSubject<boolean>(false);
 
-    // Next score
-    const nextScore = s.score + newlyPassedCount;
+// Which keys, buttons and taps trigger each game action
+const bindings$ = new BehaviorSubject<Bindings>(defaultBindings);
 
-    /* -- 10. Finish when all pipes navigated or lives run out -- */
-    // true if all planned pipes (from CSV) have already been spawned
-    const allPipesSpawned = s.nextId - 1 >= s.totalPipesPlanned;
+// Action waiting for a key or button to be bound to it
+const rebinding$ = new BehaviorSubject<GameAction | null>(null);
 
-    // true if no pipes remain on the screen
-    const allPipesCleared = updatedPipes.length === 0;
+// Checkpoints set in practice runs of the loaded map
+const checkpoints$ = new BehaviorSubject<readonly Checkpoint[]>([]);
 
-    // Game ends if lives reach 0 or all pipes have been spawned and cleared
-    const nextGameEnd = nextLives <= 0 || (allPipesSpawned && allPipesCleared);
+// Checkpoints the practice run being played can still set, from its rewind
+// history
+const recentCheckpoints$ = new BehaviorSubject<readonly Checkpoint[]>([]);
 
-    // 12. Extend the current run's trace with the bird's new position (x, y)
-    const nextTrace: Trace = [...s.trace, { x: s.bird.pos.x, y: nextY }];
+// Volume and mute, as set in the side bar
+const audioSettings$ = new BehaviorSubject<AudioSettings>(defaultAudioSettings);
 
-    /**
-     * Return the new game state
-     * - copy all properties from previous state
-     * - increment the elapsed time by one tick
-     * - update bird position and velocity (include random bounce if collided)
-     * - move pipes left, remove off-screen ones, and mark newly passed pipes
-     * - advance RNG seed so next random bounce is different
-     * - decrement lives if a collision occurred
-     * - end a game if lives reach 0 / all pipes have been spawned and cleared
-     * - increase score when the bird successfully passes through a pipe
-     * - Record the bird’s path (Appends its new position to the current trace)
-     * - Preserve the list of ghost traces from past runs
-     */
-    return {
-        ...s,
-        timeMs: s.timeMs + Constants.TICK_RATE_MS,
-        bird: { pos: { x: s.bird.pos.x, y: nextY }, velY: nextVy },
-        pipes: updatedPipes,
-        seed: nextSeed,
-        lives: nextLives,
-        gameEnd: nextGameEnd,
-        score: nextScore,
-        trace: nextTrace,
-        ghosts: s.ghosts,
-    };
-};
+// Map open in the editor
+const editor$ = new BehaviorSubject<EditorState>(emptyEditor);
 
-// 5. Handles user input (gives the bird an upward boost)
-// Needs flapR, otherwise the bird can only fall by tick
-const flapR = (s: State): State => ({
-    ...s,
-    bird: { ...s.bird, velY: Physics.FLAP_VELOCITY },
-});
-
-/** ==================== Parsing CSV to SpawnSpec ==================== */
-
-// 3. Parse CSV into an array of SpawnSpec objects.
-const parseMapCsv = (csv: string): SpawnSpec[] =>
-    csv
-        .trim() // Remove leading/trailing whitespace
-        .split(/\r?\n/) // Split the CSV string into lines
-        .slice(1) // Skip header row (gap_y,gap_height,time)
-        .map(line => {
-            const [yStr, hStr, timeStr] = line.split(",");
-
-            const y = Number(yStr); // Normalized gap center (0–1)
-            const h = Number(hStr); // Normalized gap height (0–1)
-
-            return {
-                // Convert normalized gap center and height to pixels
-                gapY: y * Viewport.CANVAS_HEIGHT,
-                gapH: h * Viewport.CANVAS_HEIGHT,
-                timeMs: Number(timeStr) * 1000,
-            } as SpawnSpec;
-        });
+// Applies a transition to the map being edited
+const updateEditor = (f: (e: EditorState) => EditorState): void =>
+    editor$.next(f(editor$.getValue()));
 
 /** ==================== View (Side effects) ==================== */
 
@@ -459,9 +320,11 @@ const createSvgElement = (
 // 5. Update bird position only
 const makeUpdateBird =
     (img: SVGImageElement) =>
-    (b: Bird): void => {
+    (b: Bird, dimmed: boolean): void => {
         img.setAttribute("x", `${b.pos.x - bird.WIDTH / 2}`);
         img.setAttribute("y", `${b.pos.y - bird.HEIGHT / 2}`);
+        // Blink after a hit, for as long as hits cost no life
+        img.setAttribute("opacity", dimmed ? "0.2" : "1");
     };
 
 // 6. Sync pipes: create/update/remove according to s.pipes
@@ -480,20 +343,11 @@ const makeSyncPipes =
                 pipeElems.get(p.id) ??
                 (() => {
                     const top = createSvgElement(svg.namespaceURI, "rect", {
-                        x: `${p.x}`,
                         y: "0",
-                        width: `${Constants.PIPE_WIDTH}`,
-                        height: `${p.gapY - p.gapH / 2}`,
                         fill: "green",
                     }) as SVGRectElement;
 
                     const bottom = createSvgElement(svg.namespaceURI, "rect", {
-                        x: `${p.x}`,
-                        y: `${p.gapY + p.gapH / 2}`,
-                        width: `${Constants.PIPE_WIDTH}`,
-                        height: `${
-                            Viewport.CANVAS_HEIGHT - (p.gapY + p.gapH / 2)
-                        }`,
                         fill: "green",
                     }) as SVGRectElement;
 
@@ -505,9 +359,18 @@ const makeSyncPipes =
                     return created;
                 })();
 
-            // Horizontal scroll only
+            // Scroll, and follow the gap as it swings or closes
+            const { top: gapTop, bottom: gapBottom } = gapEdges(p);
             pair.top.setAttribute("x", `${p.x}`);
+            pair.top.setAttribute("width", `${p.width}`);
+            pair.top.setAttribute("height", `${gapTop}`);
             pair.bottom.setAttribute("x", `${p.x}`);
+            pair.bottom.setAttribute("y", `${gapBottom}`);
+            pair.bottom.setAttribute("width", `${p.width}`);
+            pair.bottom.setAttribute(
+                "height",
+                `${Viewport.CANVAS_HEIGHT - gapBottom}`,
+            );
         });
 
         // Remove DOM for pipes no longer in state
@@ -520,45 +383,293 @@ const makeSyncPipes =
         });
     };
 
-// 12. Ghost playback for all previous runs
-const makeRenderGhosts =
-    (svg: SVGSVGElement, ghostImgs: SVGImageElement[]) =>
-    (ghosts: GhostList, timeMs: number): void => {
-        // Create missing ghost images if we need more
-        const deficit = Math.max(0, ghosts.length - ghostImgs.length);
-        Array.from({ length: deficit }).forEach(() => {
-            const img = createSvgElement(svg.namespaceURI, "image", {
-                href: "assets/bird.png",
-                width: `${bird.WIDTH}`,
-                height: `${bird.HEIGHT}`,
-                opacity: "0.006", // Keep ghost bird a bit transparent
-                "pointer-events": "none", // Make it non-interactive
-                visibility: "hidden", // Initially hidden
-            }) as SVGImageElement;
-            svg.appendChild(img);
-            ghostImgs.push(img);
+// Sync pickups: a disc with a letter per pickup in s.pickups
+type PickupElems = Readonly<{
+    group: SVGGElement;
+    disc: SVGCircleElement;
+    label: SVGTextElement;
+}>;
+
+const makeSyncPickups =
+    (svg: SVGSVGElement, pickupElems: Map<number, PickupElems>) =>
+    (pickups: readonly Pickup[]): void => {
+        const seen = new Set(pickups.map(k => k.id));
+        pickups.forEach(k => {
+            const el =
+                pickupElems.get(k.id) ??
+                (() => {
+                    const ns = svg.namespaceURI;
+                    const group = createSvgElement(ns, "g") as SVGGElement;
+                    const disc = createSvgElement(ns, "circle", {
+                        r: `${Pickups.SIZE / 2}`,
+                        stroke: "black",
+                    }) as SVGCircleElement;
+                    const label = createSvgElement(ns, "text", {
+                        y: "4",
+                        "font-size": "12",
+                        "font-weight": "bold",
+                        "text-anchor": "middle",
+                    }) as SVGTextElement;
+                    group.append(disc, label);
+                    svg.appendChild(group);
+                    const created = { group, disc, label };
+                    pickupElems.set(k.id, created);
+                    return created;
+                })();
+
+            // Ids start again with every run, so the kind may have changed
+            const { fill, label } = pickupStyle[k.kind];
+            el.disc.setAttribute("fill", fill);
+            el.label.textContent = label;
+            el.group.setAttribute(
+                "transform",
+                `translate(${k.pos.x} ${k.pos.y})`,
+            );
+            el.group.setAttribute("opacity", isPickupDimmed(k) ? "0.3" : "1");
+        });
+
+        // Remove DOM for pickups taken or gone
+        pickupElems.forEach((el, id) => {
+            if (!seen.has(id)) {
+                svg.removeChild(el.group);
+                pickupElems.delete(id);
+            }
         });
+    };
 
-        // Compute the frame index once based on elapsed time
-        const ghostIdx = Math.floor(timeMs / Constants.TICK_RATE_MS);
+// Ring around a bird while a shield is up (hidden at first)
+const createShieldRing = (svg: SVGSVGElement): SVGCircleElement => {
+    const ring = createSvgElement(svg.namespaceURI, "circle", {
+        r: `${SHIELD_RADIUS}`,
+        fill: "none",
+        stroke: pickupStyle.shield.fill,
+        "stroke-width": "3",
+        "stroke-opacity": "0.8",
+        visibility: "hidden",
+    }) as SVGCircleElement;
+    svg.appendChild(ring);
+    return ring;
+};
+
+// Ring around the bird while a shield is up
+const makeUpdateShield =
+    (ring: SVGCircleElement) =>
+    (b: Bird, shielded: boolean): void => {
+        ring.setAttribute("cx", `${b.pos.x}`);
+        ring.setAttribute("cy", `${b.pos.y}`);
+        shielded ? show(ring) : hide(ring);
+    };
+
+// 12. A ghost on the canvas: its tinted bird and label (hidden once its run
+// is over) and its crash markers
+type GhostElems = Readonly<{
+    group: SVGGElement;
+    body: SVGGElement;
+    tint: SVGEllipseElement;
+    label: SVGTextElement;
+    markers: SVGPathElement;
+}>;
+
+const createGhostElems = (svg: SVGSVGElement): GhostElems => {
+    const ns = svg.namespaceURI;
+    const group = createSvgElement(ns, "g", {
+        "pointer-events": "none", // Make it non-interactive
+    }) as SVGGElement;
+    const body = createSvgElement(ns, "g") as SVGGElement;
+    const img = createSvgElement(ns, "image", {
+        href: BIRD_SPRITE,
+        x: `${-bird.WIDTH / 2}`,
+        y: `${-bird.HEIGHT / 2}`,
+        width: `${bird.WIDTH}`,
+        height: `${bird.HEIGHT}`,
+    });
+    const tint = createSvgElement(ns, "ellipse", {
+        rx: `${bird.WIDTH / 2}`,
+        ry: `${bird.HEIGHT / 2}`,
+        "fill-opacity": "0.5",
+    }) as SVGEllipseElement;
+    const label = createSvgElement(ns, "text", {
+        y: `${-bird.HEIGHT / 2 - 3}`,
+        "font-size": "10",
+        "text-anchor": "middle",
+    }) as SVGTextElement;
+    const markers = createSvgElement(ns, "path", {
+        fill: "none",
+        "stroke-width": "2",
+    }) as SVGPathElement;
+    body.append(img, tint, label);
+    group.append(body, markers);
+    svg.appendChild(group);
+    return { group, body, tint, label, markers };
+};
+
+// 12. Ghost playback for all previous runs
+const makeRenderGhosts =
+    (svg: SVGSVGElement, ghostElems: GhostElems[]) =>
+    (ghosts: GhostList, timeMs: number, opacity: number): void => {
+        // Create missing ghost elements if we need more
+        const deficit = Math.max(0, ghosts.length - ghostElems.length);
+        Array.from({ length: deficit }).forEach(() =>
+            ghostElems.push(createGhostElems(svg)),
+        );
+
+        // Drop elements left over from a longer ghost list
+        ghostElems
+            .splice(ghosts.length)
+            .forEach(el => svg.removeChild(el.group));
 
         // Replay each ghost along its trace; hide when finished
-        ghosts.forEach((trace, i) => {
-            const img = ghostImgs[i];
-            img.setAttribute("opacity", "0.006");
-
-            const len = trace.length;
-            if (len > 0 && ghostIdx < len) {
-                const g = trace[ghostIdx];
-                img.setAttribute("x", `${g.x - bird.WIDTH / 2}`);
-                img.setAttribute("y", `${g.y - bird.HEIGHT / 2}`);
-                show(img); // Show ghost at current position
+        ghosts.forEach((g, i) => {
+            const el = ghostElems[i];
+            const tint = ghostTint(g.id);
+            el.group.setAttribute("opacity", `${opacity}`);
+            el.tint.setAttribute("fill", tint);
+            el.label.setAttribute("fill", tint);
+            el.label.textContent = ghostLabel(g);
+            el.markers.setAttribute("stroke", tint);
+            el.markers.setAttribute(
+                "d",
+                ghostMarkers(g, timeMs)
+                    .map(
+                        ({ x, y }) =>
+                            `M${x - MARKER_SIZE} ${y - MARKER_SIZE}` +
+                            `L${x + MARKER_SIZE} ${y + MARKER_SIZE}` +
+                            `M${x + MARKER_SIZE} ${y - MARKER_SIZE}` +
+                            `L${x - MARKER_SIZE} ${y + MARKER_SIZE}`,
+                    )
+                    .join(""),
+            );
+
+            const pos = traceAt(g.trace, timeMs); // Between recorded points
+            if (pos) {
+                el.body.setAttribute(
+                    "transform",
+                    `translate(${pos.x} ${pos.y})`,
+                );
+                el.body.setAttribute("visibility", "visible");
             } else {
-                hide(img); // Hide ghost when replay has ended or game ended
+                // Hide ghost when replay has ended or game ended
+                el.body.setAttribute("visibility", "hidden");
             }
         });
     };
 
+// The other players' birds: the sprite under a tint, with a shield ring
+type PlayerElems = Readonly<{
+    img: SVGImageElement;
+    tint: SVGEllipseElement;
+    ring: SVGCircleElement;
+}>;
+
+// Player 1's bird stays on top: the others go in just before it
+const createPlayerElems = (
+    svg: SVGSVGElement,
+    index: number,
+    firstBird: SVGImageElement,
+): PlayerElems => {
+    const ns = svg.namespaceURI;
+    const img = createSvgElement(ns, "image", {
+        href: BIRD_SPRITE,
+        width: `${bird.WIDTH}`,
+        height: `${bird.HEIGHT}`,
+    }) as SVGImageElement;
+    const tint = createSvgElement(ns, "ellipse", {
+        rx: `${bird.WIDTH / 2}`,
+        ry: `${bird.HEIGHT / 2}`,
+        fill: playerTint(index),
+        "fill-opacity": "0.5",
+    }) as SVGEllipseElement;
+    svg.insertBefore(img, firstBird);
+    svg.insertBefore(tint, firstBird);
+    return { img, tint, ring: createShieldRing(svg) };
+};
+
+// Sync the other players' birds: one set of elements per player
+const makeSyncPlayers =
+    (
+        svg: SVGSVGElement,
+        playerElems: PlayerElems[],
+        firstBird: SVGImageElement,
+    ) =>
+    (s: State): void => {
+        const deficit = Math.max(0, s.others.length - playerElems.length);
+        Array.from({ length: deficit }).forEach(() =>
+            playerElems.push(
+                createPlayerElems(svg, playerElems.length + 1, firstBird),
+            ),
+        );
+        playerElems.splice(s.others.length).forEach(el => {
+            svg.removeChild(el.img);
+            svg.removeChild(el.tint);
+            svg.removeChild(el.ring);
+        });
+
+        playerElems.forEach((el, i) => {
+            const view = playerView(s, i + 1);
+            const dimmed = isDimmed(view);
+            const visibility = isBirdShown(s, i + 1) ? "visible" : "hidden";
+            makeUpdateBird(el.img)(view.bird, dimmed);
+            el.tint.setAttribute("cx", `${view.bird.pos.x}`);
+            el.tint.setAttribute("cy", `${view.bird.pos.y}`);
+            el.tint.setAttribute("opacity", dimmed ? "0.2" : "1");
+            el.img.setAttribute("visibility", visibility);
+            el.tint.setAttribute("visibility", visibility);
+            makeUpdateShield(el.ring)(
+                view.bird,
+                isShielded(view) && visibility === "visible",
+            );
+        });
+    };
+
+/**
+ * SVG renderer: keeps one element per pipe, pickup, ghost and bird, and
+ * moves them to where the state says.
+ *
+ * @param svg Canvas to draw on
+ * @returns Renderer updating the SVG elements
+ */
+const makeSvgRenderer = (svg: SVGSVGElement): Renderer => {
+    // Bird image
+    const birdImg = createSvgElement(svg.namespaceURI, "image", {
+        href: BIRD_SPRITE,
+        x: `${Viewport.CANVAS_WIDTH * 0.3 - bird.WIDTH / 2}`,
+        y: `${Viewport.CANVAS_HEIGHT / 2 - bird.HEIGHT / 2}`,
+        width: `${bird.WIDTH}`,
+        height: `${bird.HEIGHT}`,
+    }) as SVGImageElement;
+    svg.appendChild(birdImg);
+    const shieldRing = createShieldRing(svg);
+    const playerElems: PlayerElems[] = [];
+
+    // 12. Array of ghost elements (will grow dynamically as needed)
+    const ghostElems: GhostElems[] = [];
+
+    // 6. Keep pipe DOM references in closure
+    // Map: pipeId -> its SVG rect elements
+    const pipeElems = new Map<number, PipeElems>();
+    const pickupElems = new Map<number, PickupElems>();
+
+    const drawBird = makeUpdateBird(birdImg); // 5
+    const drawShield = makeUpdateShield(shieldRing);
+    const drawPlayers = makeSyncPlayers(svg, playerElems, birdImg);
+    const drawPipes = makeSyncPipes(svg, pipeElems); // 6
+    const drawPickups = makeSyncPickups(svg, pickupElems);
+    const drawGhosts = makeRenderGhosts(svg, ghostElems); // 12
+
+    return (s, view) => {
+        drawPipes(s.pipes);
+        drawPickups(s.pickups);
+        drawGhosts(s.ghosts, s.timeMs, view.ghostOpacity);
+        drawPlayers(s);
+        drawBird(s.bird, isDimmed(s));
+        birdImg.setAttribute(
+            "visibility",
+            isBirdShown(s, 0) ? "visible" : "hidden",
+        );
+        drawShield(s.bird, isShielded(s) && isBirdShown(s, 0));
+    };
+};
+
 // 8. Updates HUD (Heads-Up Display): lives, score
 const makeUpdateHud =
     (livesEl?: HTMLElement, scoreEl?: HTMLElement) =>
@@ -567,6 +678,29 @@ const makeUpdateHud =
         if (scoreEl) scoreEl.textContent = `${score}`;
     };
 
+// Power-ups in effect, with the time they have left
+const makeUpdateEffects =
+    (effectsEl: HTMLElement) =>
+    (s: State): void => {
+        effectsEl.textContent = effectsText(s);
+    };
+
+// Pipes ahead of or behind the best ghost ("-" with no ghost to race)
+const makeUpdateRace =
+    (raceEl: HTMLElement) =>
+    (gap: number | undefined): void => {
+        raceEl.textContent =
+            gap === undefined
+                ? "-"
+                : gap > 0
+                  ? `${gap} ahead`
+                  : gap < 0
+                    ? `${-gap} behind`
+                    : "level";
+        raceEl.classList.toggle("ahead", gap !== undefined && gap > 0);
+        raceEl.classList.toggle("behind", gap !== undefined && gap < 0);
+    };
+
 // 8. Game over banner + container styling
 const makeToggleGameOver =
     (banner: SVGElement, container?: HTMLElement) =>
@@ -575,15 +709,484 @@ const makeToggleGameOver =
         if (container) container.classList.toggle("game-over", isOver);
     };
 
-// Rendering (side effects)
-const render = (): ((s: State) => void) => {
+// Scene screens drawn over the canvas
+type SceneElems = Readonly<{
+    title: SVGElement;
+    ready: SVGElement;
+    paused: SVGElement;
+    pauseText: SVGTextElement;
+    summaryScore: SVGTextElement;
+    summaryBest: SVGTextElement;
+}>;
+
+// Shows the screen of the current scene and fills in its text
+const makeRenderScene =
+    (el: SceneElems) =>
+    (scene: Scene): void => {
+        scene.kind === "title" ? show(el.title) : hide(el.title);
+        scene.kind === "ready" ? show(el.ready) : hide(el.ready);
+        if (scene.kind === "paused") {
+            el.pauseText.textContent =
+                scene.resumeInMs > 0
+                    ? `${Math.ceil(scene.resumeInMs / 1000)}`
+                    : "Paused (P to resume)";
+            show(el.paused);
+        } else {
+            hide(el.paused);
+        }
+        if (scene.kind === "gameOver" && scene.results) {
+            // Every player's score, and the winner in place of the best
+            const { scores, winner } = scene.results;
+            el.summaryScore.textContent = scores
+                .map((score, i) => `P${i + 1}: ${score}`)
+                .join("  ");
+            el.summaryBest.textContent =
+                winner === null ? "Draw!" : `Player ${winner + 1} wins!`;
+        } else if (scene.kind === "gameOver") {
+            el.summaryScore.textContent = `Score: ${scene.score}`;
+            el.summaryBest.textContent =
+                `Best: ${scene.best}` + (scene.newBest ? " (new best!)" : "");
+        }
+    };
+
+// Practice runs are marked on the canvas, with a note while rewinding
+const makeUpdatePracticeBadge =
+    (badge: SVGTextElement) =>
+    (practice: PracticeStatus | undefined): void => {
+        if (practice) {
+            badge.textContent = practice.rewinding
+                ? "PRACTICE ◀◀ rewinding"
+                : "PRACTICE";
+            show(badge);
+        } else {
+            hide(badge);
+        }
+    };
+
+// Playback controls: play/pause label and seek position
+const makeUpdatePlaybackControls =
+    (playPause: HTMLButtonElement, seek: HTMLInputElement, last: number) =>
+    (p: Playback): void => {
+        playPause.textContent = p.playing ? "Pause" : "Play";
+        seek.max = `${last}`;
+        seek.value = `${p.frame}`;
+    };
+
+// Replay warnings list (hidden when empty)
+const makeUpdateWarnings =
+    (list: HTMLElement) =>
+    (warnings: readonly string[]): void => {
+        list.replaceChildren(
+            ...warnings.map(w => {
+                const item = document.createElement("li");
+                item.textContent = w;
+                return item;
+            }),
+        );
+        list.hidden = warnings.length === 0;
+    };
+
+// Save text as a file through a temporary download link
+const downloadFile = (name: string, type: string, contents: string): void => {
+    const blob = new Blob([contents], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = name;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+// Save a replay as a JSON file
+const downloadReplay = (replay: Replay): void =>
+    downloadFile(
+        `replay-${replay.mapHash}-${replay.seed}.json`,
+        "application/json",
+        exportReplay(replay),
+    );
+
+// Stored ghosts with their pin buttons
+const makeRenderGhostList =
+    (list: HTMLElement) =>
+    (ghosts: readonly StoredGhost[]): void => {
+        list.replaceChildren(
+            ...ghosts.map(g => {
+                const item = document.createElement("li");
+                const pin = document.createElement("button");
+                pin.dataset.pin = `${g.id}`;
+                pin.textContent = g.pinned ? "Unpin" : "Pin";
+                item.textContent = `#${g.id} score ${g.score} `;
+                item.classList.toggle("pinned", g.pinned);
+                item.style.color = ghostTint(g.id); // As drawn on the canvas
+                item.title = new Date(g.recordedAt).toLocaleString();
+                item.appendChild(pin);
+                return item;
+            }),
+        );
+    };
+
+// Checkpoints of practice runs, with a button to restart from each
+const makeRenderCheckpoints =
+    (list: HTMLElement) =>
+    (checkpoints: readonly Checkpoint[]): void => {
+        list.replaceChildren(
+            ...checkpoints.map((c, i) => {
+                const item = document.createElement("li");
+                const restart = document.createElement("button");
+                restart.dataset.checkpoint = `${i}`;
+                restart.textContent = "Restart";
+                item.textContent = `Pipe ${c.pipe} (${formatTime(c.state.timeMs)}) `;
+                item.appendChild(restart);
+                return item;
+            }),
+        );
+    };
+
+// Pipes still in a practice run's rewind history, with a button to set a
+// checkpoint at each
+const makeRenderRecentPipes =
+    (list: HTMLElement) =>
+    (recent: readonly Checkpoint[]): void => {
+        list.replaceChildren(
+            ...recent.map((c, i) => {
+                const item = document.createElement("li");
+                const set = document.createElement("button");
+                set.dataset.recent = `${i}`;
+                set.textContent = "Set";
+                item.textContent = `Pipe ${c.pipe} (${formatTime(c.state.timeMs)}) `;
+                item.appendChild(set);
+                return item;
+            }),
+        );
+    };
+
+// Control bindings with a button to rebind each action
+const makeRenderBindings =
+    (list: HTMLElement) =>
+    (bindings: Bindings, rebinding: GameAction | null): void => {
+        list.replaceChildren(
+            ...gameActions.map(action => {
+                const item = document.createElement("li");
+                const button = document.createElement("button");
+                button.dataset.rebind = action;
+                button.textContent = "Rebind";
+                button.disabled = rebinding !== null;
+                item.textContent =
+                    rebinding === action
+                        ? `${action}: press a key or button `
+                        : `${action}: ${describeBinding(bindings, action)} `;
+                item.appendChild(button);
+                return item;
+            }),
+        );
+    };
+
+// Formats a run's duration as m:ss
+const formatTime = (ms: number): string => {
+    const seconds = Math.floor(ms / 1000);
+    return `${Math.floor(seconds / 60)}:${`${seconds % 60}`.padStart(2, "0")}`;
+};
+
+// High-score table with a button to watch each run
+const makeRenderScoreTable =
+    (list: HTMLElement) =>
+    (table: readonly ScoreEntry[]): void => {
+        list.replaceChildren(
+            ...table.map((e, i) => {
+                const item = document.createElement("li");
+                const watch = document.createElement("button");
+                watch.dataset.watch = `${i}`;
+                watch.textContent = "Watch";
+                item.textContent =
+                    `${e.initials} ${e.score} ` +
+                    `(${e.lives} lives, ${formatTime(e.timeMs)}) `;
+                item.title =
+                    `${new Date(e.recordedAt).toLocaleString()}, ` +
+                    `ghost #${e.ghostId}`;
+                item.appendChild(watch);
+                return item;
+            }),
+        );
+    };
+
+// "Best" and "last" score panels
+const makeUpdateScorePanels =
+    (bestEl: HTMLElement, lastEl: HTMLElement) =>
+    (table: readonly ScoreEntry[], last: Replay | undefined): void => {
+        const best = bestEntry(table);
+        bestEl.textContent = best ? `${best.score} ${best.initials}` : "-";
+        lastEl.textContent = last ? `${last.result.score}` : "-";
+    };
+
+// Seconds with a decimal, for the statistics
+const formatSeconds = (ms: number): string => `${(ms / 1000).toFixed(1)} s`;
+
+// Statistics of the last run: a line per figure, for each bird
+const makeRenderRunStats =
+    (list: HTMLElement) =>
+    (stats: readonly RunStats[]): void => {
+        list.replaceChildren(
+            ...stats.flatMap((r, i) => {
+                const who = stats.length > 1 ? `P${i + 1} ` : "";
+                const lost = r.deaths.map(d => formatSeconds(d.timeMs));
+                return [
+                    `${who}flaps: ${r.flaps}`,
+                    `${who}near misses: ${r.nearMisses}`,
+                    `${who}survived: ${formatSeconds(r.survivedMs)}`,
+                    `${who}pipes cleared: ${r.pipesCleared}`,
+                    `${who}lives lost at: ${lost.join(", ") || "-"}`,
+                ].map(text => {
+                    const item = document.createElement("li");
+                    item.textContent = text;
+                    return item;
+                });
+            }),
+        );
+        list.hidden = stats.length === 0;
+    };
+
+// Lives lost over the runs kept, and where on the timeline most were lost
+const makeUpdateDeathSummary =
+    (deathsEl: HTMLElement, deadliestEl: HTMLElement) =>
+    (runs: readonly StatsEntry[]): void => {
+        const heat = deathHeatmap(runs);
+        const cell = deadliestCell(heat);
+        const lost = heat.reduce((sum, n) => sum + n, 0);
+        deathsEl.textContent = `${lost} in ${runs.length} runs`;
+        deadliestEl.textContent =
+            cell === undefined
+                ? "-"
+                : formatSeconds(birdTimelineMs(cell * HEAT_CELL_MS));
+    };
+
+// Initials prompt, shown while a qualifying run waits for a name
+const makeUpdateNameEntry =
+    (form: HTMLFormElement, input: HTMLInputElement, scoreEl: HTMLElement) =>
+    (pending: ScoreEntry | undefined): void => {
+        form.hidden = pending === undefined;
+        if (pending) {
+            scoreEl.textContent = `Score ${pending.score}`;
+            input.value = loadInitials();
+            input.focus();
+            input.select();
+        }
+    };
+
+// Map error overlay: one entry per problem, hidden when there are none
+const makeUpdateMapErrors =
+    (overlay: HTMLElement, list: HTMLElement) =>
+    (errors: readonly MapError[]): void => {
+        list.replaceChildren(
+            ...errors.map(e => {
+                const item = document.createElement("li");
+                item.textContent = formatMapError(e);
+                return item;
+            }),
+        );
+        overlay.hidden = errors.length === 0;
+    };
+
+/* -- Map editor -- */
+
+// Seconds between the labelled lines of the timeline grid
+const GRID_LABEL_S = 5;
+
+// Half the height of the strip at a gap's edge that resizes it (pixels)
+const EDGE_GRAB_PX = 6;
+
+// Map editor timeline: a line per second, the pipes and the cursor
+type TimelineElems = Readonly<{
+    svg: SVGSVGElement;
+    grid: SVGGElement;
+    pipes: SVGGElement;
+    cursor: SVGLineElement;
+}>;
+
+/**
+ * Draws the map being edited along the timeline, at half size. Each pipe
+ * gets clear areas over its gap and the gap's edges, telling the pointer
+ * handlers which pipe and part was grabbed.
+ *
+ * @param el Timeline elements
+ * @returns Function drawing an editor state
+ */
+const makeRenderTimeline =
+    (el: TimelineElems) =>
+    (e: EditorState): void => {
+        const ns = el.svg.namespaceURI;
+        const H = Viewport.CANVAS_HEIGHT;
+        const width = timelineWidth(e.pipes);
+        el.svg.setAttribute("viewBox", `0 0 ${width} ${H}`);
+        el.svg.setAttribute("width", `${width / 2}`);
+
+        const seconds = Math.floor(timelineTime(width) / 1000);
+        el.grid.replaceChildren(
+            ...Array.from({ length: seconds + 1 }, (_, s) => {
+                const x = `${timelineX(s * 1000)}`;
+                const line = createSvgElement(ns, "line", {
+                    class: "grid",
+                    x1: x,
+                    x2: x,
+                    y1: "0",
+                    y2: `${H}`,
+                });
+                if (s % GRID_LABEL_S !== 0) return [line];
+                const label = createSvgElement(ns, "text", {
+                    x: `${Number(x) + 4}`,
+                    y: `${H - 8}`,
+                });
+                label.textContent = `${s} s`;
+                return [line, label];
+            }).flat(),
+        );
+
+        el.pipes.replaceChildren(
+            ...e.pipes.map((p, i) => {
+                const x = `${timelineX(p.timeMs)}`;
+                const width = `${p.width ?? Constants.PIPE_WIDTH}`;
+                const { top, bottom } = gapEdges(p);
+                const area = (
+                    part: GrabPart,
+                    y: number,
+                    height: number,
+                    kind: string,
+                ) =>
+                    createSvgElement(ns, "rect", {
+                        class: kind,
+                        x,
+                        y: `${y}`,
+                        width,
+                        height: `${Math.max(0, height)}`,
+                        "data-pipe": `${i}`,
+                        "data-part": part,
+                    });
+                const group = createSvgElement(ns, "g", {
+                    class: i === e.selected ? "selected" : "",
+                });
+                group.append(
+                    area("gap", 0, top, "pipe"),
+                    area("gap", bottom, H - bottom, "pipe"),
+                    area("gap", top, bottom - top, "gap"),
+                    area("top", top - EDGE_GRAB_PX, 2 * EDGE_GRAB_PX, "edge"),
+                    area(
+                        "bottom",
+                        bottom - EDGE_GRAB_PX,
+                        2 * EDGE_GRAB_PX,
+                        "edge",
+                    ),
+                );
+                // The pickup in the gap, if any (not grabbable itself)
+                if (p.pickup) {
+                    group.append(
+                        createSvgElement(ns, "circle", {
+                            cx: `${Number(x) + Number(width) / 2}`,
+                            cy: `${p.gapY}`,
+                            r: `${Pickups.SIZE / 2}`,
+                            fill: pickupStyle[p.pickup].fill,
+                            "pointer-events": "none",
+                        }),
+                    );
+                }
+                return group;
+            }),
+        );
+
+        const cursorX = `${timelineX(e.cursorMs)}`;
+        el.cursor.setAttribute("x1", cursorX);
+        el.cursor.setAttribute("x2", cursorX);
+    };
+
+// Death heatmap behind the timeline's pipes: the redder, the more lives lost
+const makeRenderHeatmap =
+    (group: SVGGElement) =>
+    (cells: readonly HeatCell[]): void => {
+        group.replaceChildren(
+            ...cells.map(c =>
+                createSvgElement(group.namespaceURI, "rect", {
+                    x: `${c.x}`,
+                    y: "0",
+                    width: `${c.width}`,
+                    height: `${Viewport.CANVAS_HEIGHT}`,
+                    "fill-opacity": `${0.15 + 0.6 * c.share}`,
+                }),
+            ),
+        );
+    };
+
+// Flight envelope over the timeline, and what it says about the map
+const makeUpdateEnvelope =
+    (path: SVGPathElement, status: HTMLElement) =>
+    (pipes: readonly SpawnSpec[], envelope: FlightEnvelope): void => {
+        const points = envelopeOutline(envelope.slices);
+        path.setAttribute(
+            "d",
+            points.length > 0
+                ? `M${points.map(p => `${p.x} ${p.y}`).join("L")}Z`
+                : "",
+        );
+        const lastMs = pipes[pipes.length - 1]?.timeMs ?? 0;
+        status.textContent =
+            `${pipes.length} pipes, ${formatTime(lastMs)}` +
+            (pipes.length === 0
+                ? ""
+                : envelope.blocked === undefined
+                  ? ", can be flown without a hit"
+                  : `, no way through pipe ${envelope.blocked + 1}`);
+    };
+
+// Fields and buttons acting on the selected pipe
+type PipeFields = Readonly<{
+    time: HTMLInputElement;
+    gapY: HTMLInputElement;
+    gapH: HTMLInputElement;
+    pickup: HTMLSelectElement;
+    duplicate: HTMLButtonElement;
+    remove: HTMLButtonElement;
+}>;
+
+// Shows the selected pipe in CSV units, disabling the fields with none
+const makeUpdatePipeFields =
+    (el: PipeFields) =>
+    (e: EditorState): void => {
+        const p = e.selected === null ? undefined : e.pipes[e.selected];
+        const H = Viewport.CANVAS_HEIGHT;
+        [el.time, el.gapY, el.gapH, el.pickup, el.duplicate, el.remove].forEach(
+            field => (field.disabled = p === undefined),
+        );
+        el.time.value = p ? `${p.timeMs / 1000}` : "";
+        el.gapY.value = p ? `${+(p.gapY / H).toFixed(3)}` : "";
+        el.gapH.value = p ? `${+(p.gapH / H).toFixed(3)}` : "";
+        el.pickup.value = p?.pickup ?? "";
+    };
+
+// Rendering (side effects), with the playfield drawn by the given renderer
+const render = (
+    kind: RendererKind,
+): ((f: Frame, view: ViewSettings) => void) => {
     // Canvas elements
     const gameOver = document.querySelector("#gameOver") as SVGElement;
+    const sceneElems: SceneElems = {
+        title: document.querySelector("#titleScreen") as SVGElement,
+        ready: document.querySelector("#readyScreen") as SVGElement,
+        paused: document.querySelector("#pauseOverlay") as SVGElement,
+        pauseText: document.querySelector("#pauseText") as SVGTextElement,
+        summaryScore: document.querySelector("#summaryScore") as SVGTextElement,
+        summaryBest: document.querySelector("#summaryBest") as SVGTextElement,
+    };
+    const practiceBadge = document.querySelector(
+        "#practiceBadge",
+    ) as SVGTextElement;
     const container = document.querySelector("#main") as HTMLElement;
 
     // Text fields
     const livesText = document.querySelector("#livesText") as HTMLElement;
     const scoreText = document.querySelector("#scoreText") as HTMLElement;
+    const raceText = document.querySelector("#raceText") as HTMLElement;
+    const effectsEl = document.querySelector("#effectsText") as HTMLElement;
+    const player2Info = document.querySelector("#player2Info") as HTMLElement;
+    const lives2Text = document.querySelector("#lives2Text") as HTMLElement;
+    const score2Text = document.querySelector("#score2Text") as HTMLElement;
+    const effects2El = document.querySelector("#effects2Text") as HTMLElement;
 
     const svg = document.querySelector("#svgCanvas") as SVGSVGElement;
 
@@ -593,91 +1196,467 @@ const render = (): ((s: State) => void) => {
     );
 
     // --- Create elements Once ---
-    // Bird image
-    const birdImg = createSvgElement(svg.namespaceURI, "image", {
-        href: "assets/bird.png",
-        x: `${Viewport.CANVAS_WIDTH * 0.3 - bird.WIDTH / 2}`,
-        y: `${Viewport.CANVAS_HEIGHT / 2 - bird.HEIGHT / 2}`,
-        width: `${bird.WIDTH}`,
-        height: `${bird.HEIGHT}`,
-    }) as SVGImageElement;
-    svg.appendChild(birdImg);
-
-    // 12. Array of ghost bird images (will grow dynamically as needed)
-    const ghostImgs: SVGImageElement[] = [];
-
-    // 6. Keep pipe DOM references in closure
-    // Map: pipeId -> its SVG rect elements
-    const pipeElems = new Map<number, PipeElems>();
+    // The canvas sits under the SVG, which keeps the scene screens on top
+    const gameCanvas = document.querySelector(
+        "#gameCanvas",
+    ) as HTMLCanvasElement;
+    gameCanvas.hidden = kind !== "canvas";
+    svg.classList.toggle("over-canvas", kind === "canvas");
+    const drawField =
+        kind === "canvas"
+            ? makeCanvasRenderer(gameCanvas)
+            : makeSvgRenderer(svg);
 
     // Call Helper functions
-    const drawBird = makeUpdateBird(birdImg); // 5
-    const drawPipes = makeSyncPipes(svg, pipeElems); // 6
-    const drawGhosts = makeRenderGhosts(svg, ghostImgs); // 12
     const drawHud = makeUpdateHud(livesText, scoreText); // 8
+    const drawRace = makeUpdateRace(raceText);
+    const drawEffects = makeUpdateEffects(effectsEl);
+    const drawHud2 = makeUpdateHud(lives2Text, score2Text);
+    const drawEffects2 = makeUpdateEffects(effects2El);
     const drawGameOver = makeToggleGameOver(gameOver, container); // 8
+    const drawScene = makeRenderScene(sceneElems);
+    const drawPractice = makeUpdatePracticeBadge(practiceBadge);
 
     /**
      * Renders the current state to the canvas.
      *
      * In MVC terms, this updates the View using the Model.
      *
-     * @param s Current state
+     * @param f Current scene and state
+     * @param view How the player set the playfield to be drawn
      */
-    return (s: State) => {
-        drawBird(s.bird);
-        drawPipes(s.pipes);
-        drawGhosts(s.ghosts, s.timeMs);
+    return ({ scene, state: s, practice }: Frame, view: ViewSettings) => {
+        const hover = hoverOffset(scene);
+        const hovering = (b: Bird): Bird => ({
+            ...b,
+            pos: { ...b.pos, y: b.pos.y + hover },
+        });
+        drawField(
+            {
+                ...s,
+                bird: hovering(s.bird),
+                others: s.others.map(p => ({ ...p, bird: hovering(p.bird) })),
+            },
+            view,
+        );
         drawHud(s.lives, s.score);
-        drawGameOver(s.gameEnd);
+        drawEffects(s);
+        // Player 2's rows, in two-player runs
+        player2Info.hidden = s.others.length === 0;
+        if (s.others.length > 0) {
+            const p2 = playerView(s, 1);
+            drawHud2(p2.lives, p2.score);
+            drawEffects2(p2);
+        }
+        drawRace(raceGap(s));
+        drawGameOver(scene.kind === "gameOver");
+        drawScene(scene);
+        drawPractice(practice);
     };
 };
 
+/** ==================== Fixed-timestep Clock ==================== */
+
+// Longest gap between frames the clock catches up on (e.g. a hidden tab)
+const MAX_FRAME_MS = 250;
+
+// Whole ticks due on a display frame, and how far into the next tick it is
+type ClockFrame = Readonly<{
+    ticks: number;
+    alpha: number;
+    elapsedMs: number;
+    startMs: number; // Real time the first tick due covers from
+}>;
+
+type Clock = ClockFrame & Readonly<{ lastMs?: number; accMs: number }>;
+
+/**
+ * Turns display frames into fixed simulation steps.
+ *
+ * Real time elapsed between animation frames is added to an accumulator and
+ * spent in whole ticks of `TICK_RATE_MS`, so the game runs at the same speed
+ * on 60Hz and 144Hz displays and under machine load. Gaps longer than
+ * `MAX_FRAME_MS` are capped rather than caught up on in one burst.
+ *
+ * @returns Observable of the ticks due on each frame
+ */
+const clock$ = (): Observable<ClockFrame> =>
+    interval(0, animationFrameScheduler).pipe(
+        map(() => performance.now()),
+        scan<number, Clock>(
+            (c, nowMs) => {
+                const elapsed =
+                    c.lastMs === undefined
+                        ? 0
+                        : Math.min(MAX_FRAME_MS, nowMs - c.lastMs);
+                const accMs = c.accMs + elapsed;
+                const ticks = Math.floor(accMs / Constants.TICK_RATE_MS);
+                const rest = accMs - ticks * Constants.TICK_RATE_MS;
+                return {
+                    lastMs: nowMs,
+                    accMs: rest,
+                    ticks,
+                    alpha: rest / Constants.TICK_RATE_MS,
+                    elapsedMs: elapsed,
+                    startMs: nowMs - accMs,
+                };
+            },
+            { accMs: 0, ticks: 0, alpha: 0, elapsedMs: 0, startMs: 0 },
+        ),
+    );
+
 /** ==================== Create a State Observable ==================== */
 
+// A flap waiting for its tick: its real time, and whose bird it is
+type QueuedFlap = Readonly<{ timeMs: number; player: number }>;
+
+// The scene, the two latest simulated states, how far the display is between
+// them, and flaps waiting for the tick they happened in
+type Loop = Readonly<{
+    scene: Scene;
+    prev: State;
+    curr: State;
+    alpha: number;
+    queued: readonly QueuedFlap[];
+    piloted: boolean; // Whether the autopilot is flying
+    history: History | null; // Past states to rewind to (practice runs)
+    rewinding: boolean; // Whether rewind is held
+    checkpoint: Checkpoint | null; // Checkpoint set since the last frame
+}>;
+
+// How a run is set up
+type RunOptions = Readonly<{
+    mode: GameMode; // Map or endless run
+    damage: DamageRules; // Invulnerability and respawn after hits
+    scene: Scene; // Scene the run opens on
+    best: number; // Best score so far, for the game over summary
+    practice: boolean; // Rewind and checkpoints; nothing is kept of the run
+    players: number; // Birds flying the run, each with its flap action
+    inputs?: Observable<InputEvent>; // Defaults to the saved bindings
+    autopilot?: Observable<boolean>; // Whether the autopilot flies (off)
+    rewind?: Observable<boolean>; // Whether rewind is held (practice runs)
+    startFrom?: State; // Checkpoint to start at instead of a new run
+}>;
+
+const defaultRunOptions: RunOptions = {
+    mode: "map",
+    damage: defaultDamageRules,
+    scene: titleScene,
+    best: 0,
+    practice: false,
+    players: 1,
+};
+
 export const state$ = (
     csvContents: string,
     ghosts: GhostList = [], // 12. Default to an empty list of past run traces
-): Observable<State> => {
+    seed: number = Math.floor(Math.random() * 0x7fffffff), // 11. Initialization
+    options: Partial<RunOptions> = {},
+): Observable<Frame> => {
+    const {
+        mode,
+        damage,
+        scene,
+        best,
+        practice,
+        players,
+        inputs,
+        autopilot,
+        rewind: rewind$,
+        startFrom,
+    } = {
+        ...defaultRunOptions,
+        ...options,
+    };
+
     /** User input */
     // 3. Parse CSV into spawn schedule
     const schedule: readonly SpawnSpec[] = parseMapCsv(csvContents);
 
-    const key$ = fromEvent<KeyboardEvent>(document, "keypress");
-    const fromKey = (keyCode: Key) =>
-        key$.pipe(filter(({ code }) => code === keyCode));
+    const canvas = document.querySelector("#svgCanvas") as SVGSVGElement;
+    const action$ = inputs ?? input$(loadBindings(), canvas);
+    const fromAction = (action: GameAction) =>
+        action$.pipe(filter(e => e.action === action));
 
     /** Determines the rate of time steps */
-    const tick$ = interval(Constants.TICK_RATE_MS);
+    const tick$ = clock$();
+    const step = advance(schedule);
 
     /* -- 4. Core minimal changes -- */
-    // tick$ emits a reducer (State -> State)
-    const tickReducers$ = tick$.pipe(map(() => tick));
+    // 6. tick$ emits a reducer running the ticks due (spawns, then tick),
+    // but only while the scene lets the game run. Queued flaps are applied
+    // before the tick whose stretch of real time they happened in. With the
+    // autopilot on, it starts the run and decides on flaps before each tick.
+    // In practice runs every state is kept, and holding rewind steps back
+    // through them instead; each state carries its RNG seed, so the run goes
+    // on from a rewound state exactly as it first did from there.
+    const tickReducers$ = tick$.pipe(
+        map(({ ticks, alpha, elapsedMs, startMs }) => (l: Loop): Loop => {
+            const elapsed = nextScene(l.scene, {
+                type: "elapsed",
+                ms: elapsedMs,
+            });
+            const scene = l.piloted
+                ? nextScene(elapsed, { type: "flap" })
+                : elapsed;
+            if (!isRunning(scene)) {
+                return {
+                    ...l,
+                    scene,
+                    prev: l.curr,
+                    queued: [],
+                    checkpoint: null,
+                };
+            }
+            if (l.rewinding && l.history) {
+                const history = rewind(l.history, ticks * REWIND_SPEED);
+                return {
+                    ...l,
+                    scene,
+                    prev: history.state,
+                    curr: history.state,
+                    history,
+                    queued: [],
+                    checkpoint: null,
+                };
+            }
 
-    // Space key emits a reducer (State -> State)
-    const flapReducers$ = fromKey("Space").pipe(map(() => flapR));
+            const ran = Array.from({ length: ticks }).reduce<Loop>(
+                (acc, _, i) => {
+                    const endMs = startMs + (i + 1) * Constants.TICK_RATE_MS;
+                    const due = acc.queued.filter(f => f.timeMs <= endMs);
+                    const flapped = due.reduce(
+                        (s, f) => flapPlayer(f.player)(s),
+                        acc.curr,
+                    );
+                    const curr = step(l.piloted ? pilot(flapped) : flapped);
+                    return {
+                        ...acc,
+                        prev: acc.curr,
+                        curr,
+                        queued: acc.queued.filter(f => f.timeMs > endMs),
+                        history: practice
+                            ? pushHistory(acc.history, curr)
+                            : null,
+                    };
+                },
+                { ...l, scene, alpha, checkpoint: null },
+            );
+            const { gameEnd, score } = ran.curr;
+            return gameEnd
+                ? {
+                      ...ran,
+                      scene: nextScene(scene, {
+                          type: "ended",
+                          score,
+                          best,
+                          ...(players > 1 && { results: resultsOf(ran.curr) }),
+                      }),
+                  }
+                : ran;
+        }),
+    );
 
-    // 6. Spawn reducers from CSV schedule
-    const spawnReducers$ = merge(
-        ...schedule.map(spec =>
-            timer(spec.timeMs).pipe(map(() => spawnPipe(spec))),
+    // Turning the autopilot on or off
+    const autopilotReducers$ = (autopilot ?? EMPTY).pipe(
+        map(piloted => (l: Loop): Loop => ({ ...l, piloted })),
+    );
+
+    // Practice runs: holding rewind, and setting a checkpoint at the last
+    // pipe passed
+    const practiceReducers$ = practice
+        ? merge(
+              (rewind$ ?? EMPTY).pipe(
+                  map(rewinding => (l: Loop): Loop => ({ ...l, rewinding })),
+              ),
+              fromAction("checkpoint").pipe(
+                  map(() => (l: Loop): Loop => ({
+                      ...l,
+                      checkpoint: l.history ? pipeCheckpoint(l.history) : null,
+                  })),
+              ),
+          )
+        : EMPTY;
+
+    // Scene changes with no effect on the simulation
+    const sceneReducer =
+        (event: SceneEvent) =>
+        (l: Loop): Loop => ({ ...l, scene: nextScene(l.scene, event) });
+
+    // The pause action toggles pause; hiding the tab or leaving the window
+    // pauses
+    const pauseReducers$ = merge(
+        fromAction("pause").pipe(
+            map(() => sceneReducer({ type: "togglePause" })),
+        ),
+        fromEvent(document, "visibilitychange").pipe(
+            filter(() => document.hidden),
+            map(() => sceneReducer({ type: "pause" })),
+        ),
+        fromEvent(window, "blur").pipe(
+            map(() => sceneReducer({ type: "pause" })),
         ),
     );
 
-    // Merge reducer streams and appply them to state with scan
-    return merge(tickReducers$, flapReducers$, spawnReducers$).pipe(
-        scan((s, reducer) => reducer(s), {
-            ...initialState,
-            seed: Math.floor(Math.random() * 0x7fffffff), // 11. Initialization
-            totalPipesPlanned: schedule.length, // 10. Inject plan size here
-            ghosts, // 12. Inject the list of past run traces
-            trace: [] as Trace, // 12. Start with an empty trace
+    // A flap is queued for the tick it happened in; it also moves on from
+    // the title and ready screens, and the first flap starts the run. In
+    // two-player runs, either player's flap does.
+    const flapReducers$ = merge(
+        fromAction("flap").pipe(map(({ timeMs }) => ({ timeMs, player: 0 }))),
+        players > 1
+            ? fromAction("flap2").pipe(
+                  map(({ timeMs }) => ({ timeMs, player: 1 })),
+              )
+            : EMPTY,
+    ).pipe(
+        map(flap => (l: Loop): Loop => {
+            const next = nextScene(l.scene, { type: "flap" });
+            return l.scene.kind === "playing"
+                ? { ...l, queued: [...l.queued, flap] }
+                : {
+                      ...l,
+                      scene: next,
+                      curr: isRunning(next)
+                          ? flapPlayer(flap.player)(l.curr)
+                          : l.curr,
+                  };
         }),
     );
+
+    const start =
+        startFrom ?? createState(seed, schedule, ghosts, mode, damage, players);
+    const initial: Loop = {
+        scene,
+        prev: start,
+        curr: start,
+        alpha: 0,
+        queued: [],
+        piloted: false,
+        history: practice ? pushHistory(null, start) : null,
+        rewinding: false,
+        checkpoint: null,
+    };
+
+    // Merge reducer streams and appply them to state with scan
+    return merge(
+        tickReducers$,
+        flapReducers$,
+        pauseReducers$,
+        autopilotReducers$,
+        practiceReducers$,
+    ).pipe(
+        scan((l, reducer) => reducer(l), initial),
+        map((l): Frame => ({
+            scene: l.scene,
+            state: interpolate(l.prev, l.curr, l.alpha),
+            ...(practice && {
+                practice: {
+                    rewinding: l.rewinding,
+                    checkpoint: l.checkpoint,
+                    recent: l.history ? historyCheckpoints(l.history) : [],
+                },
+            }),
+        })),
+    );
+};
+
+/** ==================== Replay Playback ==================== */
+
+// Position and play/pause status of the replay being watched
+type Playback = Readonly<{ frame: number; playing: boolean; alpha: number }>;
+
+/**
+ * Plays back pre-computed states with play/pause and seek controls.
+ *
+ * @param states Every state of the recorded run
+ * @param playPause Button toggling playback
+ * @param seek Range input selecting the frame
+ * @returns Observable of the state at the current frame, shown as playing
+ */
+const playback$ = (
+    states: readonly State[],
+    playPause: HTMLButtonElement,
+    seek: HTMLInputElement,
+): Observable<Frame> => {
+    const last = states.length - 1;
+
+    // Reducers (Playback -> Playback)
+    const step =
+        ({ ticks, alpha }: ClockFrame) =>
+        (p: Playback): Playback =>
+            p.playing
+                ? {
+                      frame: Math.min(last, p.frame + ticks),
+                      playing: p.frame + ticks < last,
+                      alpha,
+                  }
+                : p;
+    const toggle = (p: Playback): Playback =>
+        p.frame >= last
+            ? { frame: 0, playing: true, alpha: 0 } // Restart at the end
+            : { ...p, playing: !p.playing };
+    const seekTo =
+        (frame: number) =>
+        (p: Playback): Playback => ({ ...p, frame, alpha: 0 });
+
+    const stepReducers$ = clock$().pipe(map(step));
+    const toggleReducers$ = fromEvent(playPause, "click").pipe(
+        map(() => toggle),
+    );
+    const seekReducers$ = fromEvent(seek, "input").pipe(
+        map(() => seekTo(Number(seek.value))),
+    );
+
+    const drawControls = makeUpdatePlaybackControls(playPause, seek, last);
+    const initial: Playback = { frame: 0, playing: true, alpha: 0 };
+
+    return merge(stepReducers$, toggleReducers$, seekReducers$).pipe(
+        scan((p, reducer) => reducer(p), initial),
+        startWith(initial),
+        tap(drawControls),
+        // Between recorded ticks, draw positions blended with the next one
+        map(p =>
+            p.frame < last
+                ? interpolate(states[p.frame], states[p.frame + 1], p.alpha)
+                : states[p.frame],
+        ),
+        map((state): Frame => ({ scene: { kind: "playing" }, state })),
+    );
 };
 
+/**
+ * Plays the sounds of a run (or of a replay) as its frames go by, from the
+ * changes between each state and the one before.
+ *
+ * @param play Player of a sound
+ * @returns Operator passing the frames through unchanged
+ */
+const withSounds =
+    (play: (event: SoundEvent) => void) =>
+    (frames: Observable<Frame>): Observable<Frame> =>
+        frames.pipe(
+            connect(shared =>
+                merge(
+                    shared,
+                    shared.pipe(
+                        map(f => f.state),
+                        pairwise(),
+                        mergeMap(([prev, curr]) => soundEvents(prev, curr)),
+                        tap(play),
+                        ignoreElements(),
+                    ),
+                ),
+            ),
+        );
+
 /** ==================== Execute application ==================== */
 
+// Pause on the game over summary before a demo run starts again
+const DEMO_RESTART_MS = 3000;
+
+// Quiet time after an edit before the flight envelope is worked out again
+const ENVELOPE_DELAY_MS = 250;
+
 // The following simply runs your main function on window load.
 // Make sure to leave it in place.
 // You should not need to change this, beware if you are.
@@ -686,8 +1665,26 @@ if (typeof window !== "undefined") {
     const baseUrl = `${protocol}//${hostname}${port ? `:${port}` : ""}`;
     const csvUrl = `${baseUrl}/assets/map.csv`;
 
-    // Get the file from URL
-    const csv$ = fromFetch(csvUrl).pipe(
+    // Map error overlay
+    const mapErrors = document.querySelector("#mapErrors") as HTMLElement;
+    const mapErrorList = document.querySelector("#mapErrorList") as HTMLElement;
+    const useBuiltInMap = document.querySelector(
+        "#useBuiltInMap",
+    ) as HTMLButtonElement;
+    const showMapErrors = makeUpdateMapErrors(mapErrors, mapErrorList);
+
+    // Show the problems, then wait for the player to pick the built-in map
+    const fallbackMap$ = (errors: readonly MapError[]): Observable<string> => {
+        showMapErrors(errors);
+        return fromEvent(useBuiltInMap, "click").pipe(
+            take(1),
+            tap(() => showMapErrors([])),
+            map(() => builtInMapCsv),
+        );
+    };
+
+    // Get the file from URL, falling back to the built-in map on request
+    const loadedCsv$ = fromFetch(csvUrl).pipe(
         switchMap(response => {
             if (response.ok) {
                 return response.text();
@@ -695,47 +1692,776 @@ if (typeof window !== "undefined") {
                 throw new Error(`Fetch error: ${response.status}`);
             }
         }),
-        catchError(err => {
+        withFallbackMap(fallbackMap$),
+        catchError((err: Error) => {
             console.error("Error fetching the CSV file:", err);
-            throw err;
+            return fallbackMap$([
+                { line: 0, column: 0, message: `${csvUrl}: ${err.message}` },
+            ]);
         }),
     );
 
-    // Observable: wait for first user click
-    const click$ = fromEvent(document.body, "mousedown").pipe(take(1));
+    // Map or endless mode, as picked in the side bar (changing it goes back
+    // to the title screen)
+    const modeSelect = document.querySelector(
+        "#modeSelect",
+    ) as HTMLSelectElement;
+    const mode$ = fromEvent(modeSelect, "change").pipe(
+        map(() => modeSelect.value as GameMode),
+        startWith(modeSelect.value as GameMode),
+    );
 
-    // 11. Restart on "R Key"
-    const restart$ = fromEvent<KeyboardEvent>(document, "keypress").pipe(
-        filter(e => e.code === "KeyR"),
+    // Hit rules, read when a run starts
+    const invulnerableMs = document.querySelector(
+        "#invulnerableMs",
+    ) as HTMLInputElement;
+    const respawn = document.querySelector("#respawn") as HTMLInputElement;
+    const hitShape = document.querySelector("#hitShape") as HTMLSelectElement;
+    invulnerableMs.value = `${defaultDamageRules.invulnerableMs}`;
+    respawn.checked = defaultDamageRules.respawn;
+    hitShape.value = defaultDamageRules.hitShape;
+    const damageRules = (): DamageRules => ({
+        invulnerableMs: Math.max(0, Number(invulnerableMs.value) || 0),
+        respawn: respawn.checked,
+        hitShape: hitShape.value as HitShape,
+    });
+    const damage$ = merge(
+        fromEvent(invulnerableMs, "change"),
+        fromEvent(respawn, "change"),
+        fromEvent(hitShape, "change"),
+    ).pipe(map(damageRules), startWith(damageRules()));
+
+    // Practice mode, with its checkpoints panel
+    const practiceToggle = document.querySelector(
+        "#practice",
+    ) as HTMLInputElement;
+    const checkpointPanel = document.querySelector(
+        "#checkpointPanel",
+    ) as HTMLElement;
+    const practice$ = fromEvent(practiceToggle, "change").pipe(
+        map(() => practiceToggle.checked),
+        startWith(practiceToggle.checked),
+        tap(practice => (checkpointPanel.hidden = !practice)),
     );
 
-    csv$.pipe(
-        switchMap(contents =>
-            // 11. Click the first time, then R Key to switch to restart
-            merge(click$, restart$).pipe(
-                // 12. Stream GhostList together with user events
-                withLatestFrom(ghostStore$),
-                switchMap(
-                    (
-                        [, ghosts], // 12. ghosts: GhostList from store
-                    ) =>
-                        state$(contents, ghosts).pipe(
-                            tap(s => {
-                                if (s.gameEnd) {
-                                    // 12. Get current GhostList from store
-                                    const prev: GhostList =
-                                        ghostStore$.getValue();
-                                    const nextGhosts: GhostList = [
-                                        ...prev,
-                                        s.trace,
-                                    ]; // 12. Append the current run's trace
-                                    // 12. Update store with new GhostList
-                                    ghostStore$.next(nextGhosts);
-                                }
-                            }),
-                        ),
+    // One or two players, as picked in the side bar (changing it goes back
+    // to the title screen)
+    const playersSelect = document.querySelector(
+        "#players",
+    ) as HTMLSelectElement;
+    const players$ = fromEvent(playersSelect, "change").pipe(
+        map(() => Number(playersSelect.value)),
+        startWith(Number(playersSelect.value)),
+    );
+
+    // Sound: volume and mute restored, and saved on every change
+    const volume = document.querySelector("#volume") as HTMLInputElement;
+    const mute = document.querySelector("#mute") as HTMLInputElement;
+    audioSettings$.next(loadAudioSettings());
+    volume.value = `${audioSettings$.getValue().volume}`;
+    mute.checked = audioSettings$.getValue().muted;
+    merge(fromEvent(volume, "input"), fromEvent(mute, "change"))
+        .pipe(
+            map((): AudioSettings => ({
+                volume: Math.min(1, Math.max(0, Number(volume.value))),
+                muted: mute.checked,
+            })),
+        )
+        .subscribe(settings => audioSettings$.next(settings));
+    audioSettings$.subscribe(settings => saveAudioSettings(settings));
+    const player = makeSoundPlayer();
+    const playSound = (event: SoundEvent): void =>
+        player(event, audioSettings$.getValue());
+
+    // Made-up ghosts asked for in the URL, to compare renderers under load
+    const extraGhosts = syntheticGhosts(extraGhostCount(location.search));
+
+    // Game actions from the current bindings (none while rebinding, so the
+    // key being bound doesn't also play)
+    const canvas = document.querySelector("#svgCanvas") as SVGSVGElement;
+    const inputs$ = combineLatest([bindings$, rebinding$]).pipe(
+        switchMap(([bindings, rebinding]) =>
+            rebinding === null ? input$(bindings, canvas) : EMPTY,
+        ),
+        share(),
+    );
+
+    // 11. Restart on the restart action (R key by default)
+    const keyRestart$ = inputs$.pipe(filter(e => e.action === "restart"));
+
+    // Whether rewind is held (never while rebinding)
+    const rewinding$ = combineLatest([bindings$, rebinding$]).pipe(
+        switchMap(([bindings, rebinding]) =>
+            rebinding === null ? held$(bindings, "rewind") : of(false),
+        ),
+        share(),
+    );
+
+    // Checkpoints: listed with a button to restart from each
+    const checkpointList = document.querySelector(
+        "#checkpointList",
+    ) as HTMLElement;
+    const clearCheckpoints = document.querySelector(
+        "#clearCheckpoints",
+    ) as HTMLButtonElement;
+    checkpoints$.subscribe(makeRenderCheckpoints(checkpointList));
+    fromEvent(clearCheckpoints, "click").subscribe(() => checkpoints$.next([]));
+    const pickedCheckpoint$ = fromEvent<MouseEvent>(
+        checkpointList,
+        "click",
+    ).pipe(
+        map(e => (e.target as HTMLElement).dataset.checkpoint),
+        filter((i): i is string => i !== undefined),
+        map(i => checkpoints$.getValue()[Number(i)]),
+    );
+
+    // Pipes of the run still in its rewind history: listed, redrawn when
+    // they change, with a button to set a checkpoint at each
+    const recentPipes = document.querySelector("#recentPipes") as HTMLElement;
+    recentCheckpoints$
+        .pipe(
+            distinctUntilChanged(
+                (a, b) =>
+                    a.length === b.length &&
+                    a.every(
+                        (c, i) =>
+                            c.pipe === b[i].pipe &&
+                            c.state.timeMs === b[i].state.timeMs,
+                    ),
+            ),
+        )
+        .subscribe(makeRenderRecentPipes(recentPipes));
+    fromEvent<MouseEvent>(recentPipes, "click")
+        .pipe(
+            map(e => (e.target as HTMLElement).dataset.recent),
+            filter((i): i is string => i !== undefined),
+            map(i => recentCheckpoints$.getValue()[Number(i)]),
+            filter(c => c !== undefined),
+        )
+        .subscribe(c =>
+            checkpoints$.next(addCheckpoint(checkpoints$.getValue(), c)),
+        );
+
+    // Autopilot toggle; in demo mode a finished run restarts by itself
+    const autopilotToggle = document.querySelector(
+        "#autopilot",
+    ) as HTMLInputElement;
+    fromEvent(autopilotToggle, "change").subscribe(() =>
+        autopilot$.next(autopilotToggle.checked),
+    );
+    const demoRestart$ = lastReplay$.pipe(
+        skip(1),
+        switchMap(() =>
+            autopilot$.getValue()
+                ? timer(DEMO_RESTART_MS).pipe(takeUntil(keyRestart$))
+                : EMPTY,
+        ),
+    );
+    // Restarts start a new run, except in practice: the restart action goes
+    // back to the furthest checkpoint, and the list to the one picked
+    const restart$ = merge(
+        keyRestart$.pipe(
+            map(() => checkpoints$.getValue().at(-1)), // In pipe order
+        ),
+        demoRestart$.pipe(map(() => undefined)),
+        pickedCheckpoint$,
+    );
+
+    // Control bindings: restore, save on change, and rebind on request
+    const bindingList = document.querySelector("#bindingList") as HTMLElement;
+    const resetBindings = document.querySelector(
+        "#resetBindings",
+    ) as HTMLButtonElement;
+    bindings$.next(loadBindings());
+    bindings$.pipe(skip(1)).subscribe(bindings => saveBindings(bindings));
+    const drawBindings = makeRenderBindings(bindingList);
+    combineLatest([bindings$, rebinding$]).subscribe(([bindings, rebinding]) =>
+        drawBindings(bindings, rebinding),
+    );
+    fromEvent<MouseEvent>(bindingList, "click")
+        .pipe(
+            map(e => (e.target as HTMLElement).dataset.rebind),
+            filter((a): a is GameAction => a !== undefined),
+            tap(action => rebinding$.next(action)),
+            switchMap(action =>
+                capture$().pipe(map(captured => ({ action, captured }))),
+            ),
+        )
+        .subscribe(({ action, captured }) => {
+            bindings$.next(rebind(bindings$.getValue(), action, captured));
+            rebinding$.next(null);
+        });
+    fromEvent(resetBindings, "click").subscribe(() =>
+        bindings$.next(defaultBindings),
+    );
+
+    // Replay controls
+    const exportButton = document.querySelector(
+        "#exportReplay",
+    ) as HTMLButtonElement;
+    const importInput = document.querySelector(
+        "#importReplay",
+    ) as HTMLInputElement;
+    const playbackPanel = document.querySelector("#playback") as HTMLElement;
+    const playPause = document.querySelector("#playPause") as HTMLButtonElement;
+    const seek = document.querySelector("#seek") as HTMLInputElement;
+    const warningsList = document.querySelector(
+        "#replayWarnings",
+    ) as HTMLElement;
+    const showWarnings = makeUpdateWarnings(warningsList);
+
+    // Download the replay of the last finished run
+    fromEvent(exportButton, "click")
+        .pipe(withLatestFrom(lastReplay$))
+        .subscribe(([, replay]) => {
+            if (replay) downloadReplay(replay);
+        });
+    lastReplay$.subscribe(replay => (exportButton.disabled = !replay));
+
+    // Replays picked in the file input (invalid files are reported)
+    const replay$ = fromEvent(importInput, "change").pipe(
+        map(() => importInput.files?.[0]),
+        filter((file): file is File => file !== undefined),
+        switchMap(file =>
+            from(file.text()).pipe(
+                map(importReplay),
+                catchError((err: Error) => {
+                    showWarnings([err.message]);
+                    return EMPTY;
+                }),
+            ),
+        ),
+        tap(() => (importInput.value = "")), // Allow re-importing the file
+    );
+
+    // High scores: saved per map, listed in the side bar
+    const scoreTable = document.querySelector("#scoreTable") as HTMLElement;
+    const bestText = document.querySelector("#bestText") as HTMLElement;
+    const lastText = document.querySelector("#lastText") as HTMLElement;
+    const nameEntry = document.querySelector("#nameEntry") as HTMLFormElement;
+    const initials = document.querySelector("#initials") as HTMLInputElement;
+    const nameEntryScore = document.querySelector(
+        "#nameEntryScore",
+    ) as HTMLElement;
+    const skipName = document.querySelector("#skipName") as HTMLButtonElement;
+
+    scores$.pipe(withLatestFrom(mapHash$)).subscribe(([table, mapHash]) => {
+        if (mapHash) saveScores(mapHash, table);
+    });
+    const drawScorePanels = makeUpdateScorePanels(bestText, lastText);
+    scores$.subscribe(makeRenderScoreTable(scoreTable));
+    combineLatest([scores$, lastReplay$]).subscribe(([table, last]) =>
+        drawScorePanels(table, last),
+    );
+    pendingScore$.subscribe(
+        makeUpdateNameEntry(nameEntry, initials, nameEntryScore),
+    );
+
+    // Run statistics: the last run's, and the lives lost over the runs kept
+    // for the map, which can be downloaded for tuning it
+    const exportStatsButton = document.querySelector(
+        "#exportStats",
+    ) as HTMLButtonElement;
+    statsHistory$
+        .pipe(withLatestFrom(mapHash$))
+        .subscribe(([runs, mapHash]) => {
+            if (mapHash) saveStats(mapHash, runs);
+        });
+    lastStats$.subscribe(
+        makeRenderRunStats(document.querySelector("#runStats") as HTMLElement),
+    );
+    statsHistory$.subscribe(
+        makeUpdateDeathSummary(
+            document.querySelector("#deathsText") as HTMLElement,
+            document.querySelector("#deadliestText") as HTMLElement,
+        ),
+    );
+    statsHistory$.subscribe(
+        runs => (exportStatsButton.disabled = runs.length === 0),
+    );
+    fromEvent(exportStatsButton, "click")
+        .pipe(withLatestFrom(statsHistory$, mapHash$))
+        .subscribe(([, runs, mapHash]) =>
+            downloadFile(
+                `stats-${mapHash}.json`,
+                "application/json",
+                exportStats(mapHash, runs),
+            ),
+        );
+
+    // Put the waiting run on the table under the typed initials
+    fromEvent(nameEntry, "submit")
+        .pipe(
+            tap(e => e.preventDefault()),
+            withLatestFrom(pendingScore$),
+        )
+        .subscribe(([, pending]) => {
+            if (!pending) return;
+            const name = normaliseInitials(initials.value);
+            saveInitials(name);
+            scores$.next(
+                insertScore(scores$.getValue(), { ...pending, initials: name }),
+            );
+            pendingScore$.next(undefined);
+        });
+    fromEvent(skipName, "click").subscribe(() => pendingScore$.next(undefined));
+
+    // Runs picked from the table to watch
+    const watch$ = fromEvent<MouseEvent>(scoreTable, "click").pipe(
+        map(e => (e.target as HTMLElement).dataset.watch),
+        filter((i): i is string => i !== undefined),
+        map(i => scores$.getValue()[Number(i)].replay),
+    );
+
+    // Ghost controls
+    const ghostList = document.querySelector("#ghostList") as HTMLElement;
+    const clearGhosts = document.querySelector(
+        "#clearGhosts",
+    ) as HTMLButtonElement;
+    const ghostPolicy = document.querySelector(
+        "#ghostPolicy",
+    ) as HTMLSelectElement;
+    const ghostCap = document.querySelector("#ghostCap") as HTMLInputElement;
+    const ghostRace = document.querySelector("#ghostRace") as HTMLSelectElement;
+    const raceCount = document.querySelector("#raceCount") as HTMLInputElement;
+    const ghostOpacity = document.querySelector(
+        "#ghostOpacity",
+    ) as HTMLInputElement;
+
+    // Persist ghosts of the loaded map whenever they change
+    ghostStore$
+        .pipe(withLatestFrom(mapHash$))
+        .subscribe(([ghosts, mapHash]) => {
+            if (mapHash) saveGhosts(mapHash, ghosts);
+        });
+    ghostStore$.subscribe(makeRenderGhostList(ghostList));
+
+    // Settings: restore, then save and re-apply the cap on every change (the
+    // ghosts raced change on the next run, the opacity straight away)
+    ghostSettings$.next(loadGhostSettings());
+    ghostPolicy.value = ghostSettings$.getValue().policy;
+    ghostCap.value = `${ghostSettings$.getValue().cap}`;
+    ghostRace.value = ghostSettings$.getValue().race;
+    raceCount.value = `${ghostSettings$.getValue().raceCount}`;
+    ghostOpacity.value = `${ghostSettings$.getValue().opacity}`;
+    merge(
+        fromEvent(ghostPolicy, "change"),
+        fromEvent(ghostCap, "change"),
+        fromEvent(ghostRace, "change"),
+        fromEvent(raceCount, "change"),
+        fromEvent(ghostOpacity, "input"),
+    )
+        .pipe(
+            map((): GhostSettings => ({
+                policy: ghostPolicy.value as GhostSettings["policy"],
+                cap: Math.max(0, Math.floor(Number(ghostCap.value) || 0)),
+                race: ghostRace.value as GhostSettings["race"],
+                raceCount: Math.max(
+                    1,
+                    Math.floor(Number(raceCount.value) || 1),
                 ),
+                opacity: Math.min(1, Math.max(0, Number(ghostOpacity.value))),
+            })),
+        )
+        .subscribe(settings => ghostSettings$.next(settings));
+    ghostSettings$.subscribe(settings => {
+        saveGhostSettings(settings);
+        updateGhosts(ghosts => evict(ghosts, settings));
+    });
+
+    // Pin buttons in the list, and clearing everything not pinned
+    fromEvent<MouseEvent>(ghostList, "click")
+        .pipe(
+            map(e => (e.target as HTMLElement).dataset.pin),
+            filter((id): id is string => id !== undefined),
+        )
+        .subscribe(id => updateGhosts(togglePin(Number(id))));
+    fromEvent(clearGhosts, "click").subscribe(() =>
+        updateGhosts(clearUnpinned),
+    );
+
+    // Map editor: opens on the loaded map, and keeps edits until reloaded
+    const loadedMap$ = loadedCsv$.pipe(shareReplay(1));
+    const editMap = document.querySelector("#editMap") as HTMLButtonElement;
+    const editorPanel = document.querySelector("#editor") as HTMLElement;
+    const timeline = document.querySelector("#timeline") as SVGSVGElement;
+    const pipeFields: PipeFields = {
+        time: document.querySelector("#pipeTime") as HTMLInputElement,
+        gapY: document.querySelector("#pipeGapY") as HTMLInputElement,
+        gapH: document.querySelector("#pipeGapH") as HTMLInputElement,
+        pickup: document.querySelector("#pipePickup") as HTMLSelectElement,
+        duplicate: document.querySelector(
+            "#duplicatePipe",
+        ) as HTMLButtonElement,
+        remove: document.querySelector("#deletePipe") as HTMLButtonElement,
+    };
+    const addPipeButton = document.querySelector(
+        "#addPipe",
+    ) as HTMLButtonElement;
+    const testPlay = document.querySelector("#testPlay") as HTMLButtonElement;
+    const stopTest = document.querySelector("#stopTest") as HTMLButtonElement;
+    const exportMap = document.querySelector("#exportMap") as HTMLButtonElement;
+    const importMap = document.querySelector("#importMap") as HTMLInputElement;
+    const stage = document.querySelector("#stage") as HTMLElement;
+    const showEditorErrors = makeUpdateWarnings(
+        document.querySelector("#editorErrors") as HTMLElement,
+    );
+
+    loadedMap$.subscribe(contents => editor$.next(openMap(contents)));
+    const drawTimeline = makeRenderTimeline({
+        svg: timeline,
+        grid: document.querySelector("#timelineGrid") as SVGGElement,
+        pipes: document.querySelector("#timelinePipes") as SVGGElement,
+        cursor: document.querySelector("#timelineCursor") as SVGLineElement,
+    });
+    editor$.subscribe(drawTimeline);
+    editor$.subscribe(makeUpdatePipeFields(pipeFields));
+
+    // The flight envelope takes a while on long maps: work it out only with
+    // the editor open, once edits settle
+    const editorOpen$ = fromEvent(editMap, "click").pipe(
+        map(() => editorPanel.hidden),
+        startWith(false),
+        tap(open => (editorPanel.hidden = !open)),
+    );
+    const drawEnvelope = makeUpdateEnvelope(
+        document.querySelector("#envelope") as SVGPathElement,
+        document.querySelector("#editorStatus") as HTMLElement,
+    );
+    editorOpen$
+        .pipe(
+            switchMap(open => (open ? editor$.pipe(map(e => e.pipes)) : EMPTY)),
+            distinctUntilChanged(),
+            debounceTime(ENVELOPE_DELAY_MS),
+        )
+        .subscribe(pipes => drawEnvelope(pipes, flightEnvelope(pipes)));
+
+    // Where lives are lost on the map (endless runs have no place on it)
+    const drawHeatmap = makeRenderHeatmap(
+        document.querySelector("#timelineHeat") as SVGGElement,
+    );
+    combineLatest([statsHistory$, mode$]).subscribe(([runs, mode]) =>
+        drawHeatmap(
+            mode === "map" ? heatCells(deathHeatmap(runs), HEAT_CELL_MS) : [],
+        ),
+    );
+
+    // Pointer position in timeline coordinates
+    const toTimeline = (e: PointerEvent): Vec => {
+        const m = timeline.getScreenCTM();
+        return m
+            ? new DOMPoint(e.clientX, e.clientY).matrixTransform(m.inverse())
+            : { x: 0, y: 0 };
+    };
+
+    // Pressing on a pipe selects it and drags the part grabbed until
+    // released; pressing anywhere else moves the cursor there
+    fromEvent<PointerEvent>(timeline, "pointerdown")
+        .pipe(
+            tap(e => e.preventDefault()), // No text selection while dragging
+            map(e => {
+                const { pipe, part } = (e.target as SVGElement).dataset;
+                return { at: toTimeline(e), pipe, part };
+            }),
+            tap(({ at, pipe }) =>
+                updateEditor(
+                    pipe === undefined
+                        ? moveCursor(timelineTime(at.x))
+                        : selectPipe(Number(pipe)),
+                ),
+            ),
+            filter(({ pipe }) => pipe !== undefined),
+            map(({ at, pipe, part }): Grab => ({
+                part: part as GrabPart,
+                from: at,
+                pipe: editor$.getValue().pipes[Number(pipe)],
+            })),
+            switchMap(grab =>
+                fromEvent<PointerEvent>(document, "pointermove").pipe(
+                    map(e => dragPipe(grab, toTimeline(e))),
+                    takeUntil(fromEvent(document, "pointerup")),
+                ),
+            ),
+        )
+        .subscribe(updateEditor);
+
+    // Buttons and fields, in the units of the CSV file
+    merge(
+        fromEvent(addPipeButton, "click").pipe(map(() => addPipe)),
+        fromEvent(pipeFields.duplicate, "click").pipe(map(() => duplicatePipe)),
+        fromEvent(pipeFields.remove, "click").pipe(map(() => deletePipe)),
+        fromEvent(pipeFields.time, "change").pipe(
+            map(() =>
+                editPipe({
+                    timeMs: (Number(pipeFields.time.value) || 0) * 1000,
+                }),
+            ),
+        ),
+        fromEvent(pipeFields.gapY, "change").pipe(
+            map(() =>
+                editPipe({
+                    gapY:
+                        (Number(pipeFields.gapY.value) || 0) *
+                        Viewport.CANVAS_HEIGHT,
+                }),
+            ),
+        ),
+        fromEvent(pipeFields.gapH, "change").pipe(
+            map(() =>
+                editPipe({
+                    gapH:
+                        (Number(pipeFields.gapH.value) || 0) *
+                        Viewport.CANVAS_HEIGHT,
+                }),
             ),
         ),
-    ).subscribe(render()); // Render game state continuously
+        fromEvent(pipeFields.pickup, "change").pipe(
+            map(() =>
+                editPipe({
+                    pickup: (pipeFields.pickup.value || undefined) as
+                        PickupKind | undefined,
+                }),
+            ),
+        ),
+    ).subscribe(updateEditor);
+
+    // Import a map file (rows with problems are left out and listed)
+    fromEvent(importMap, "change")
+        .pipe(
+            map(() => importMap.files?.[0]),
+            filter((file): file is File => file !== undefined),
+            switchMap(file => from(file.text())),
+            tap(() => (importMap.value = "")), // Allow re-importing the file
+        )
+        .subscribe(contents => {
+            showEditorErrors(readMapCsv(contents).errors.map(formatMapError));
+            editor$.next(openMap(contents));
+        });
+    fromEvent(exportMap, "click").subscribe(() =>
+        downloadFile(
+            "map.csv",
+            "text/csv",
+            formatMapCsv(editor$.getValue().pipes),
+        ),
+    );
+
+    // The map file played: the loaded one, or the edited one from the cursor
+    // on while testing it
+    const testPlay$ = fromEvent(testPlay, "click").pipe(
+        map(() => testSchedule(editor$.getValue())),
+        tap(schedule =>
+            showEditorErrors(
+                schedule.length > 0 ? [] : ["No pipes after the cursor"],
+            ),
+        ),
+        filter(schedule => schedule.length > 0),
+        tap(() => stage.scrollIntoView({ block: "nearest" })),
+        map(schedule => ({ contents: formatMapCsv(schedule), testing: true })),
+    );
+    const backToMap$ = fromEvent(stopTest, "click").pipe(
+        withLatestFrom(loadedMap$),
+        map(([, contents]) => ({ contents, testing: false })),
+    );
+    const csv$ = merge(
+        loadedMap$.pipe(map(contents => ({ contents, testing: false }))),
+        testPlay$,
+        backToMap$,
+    );
+
+    const draw = render(rendererKind(location.search));
+
+    csv$.pipe(
+        // Switching settings drops the current run and shows the title again
+        // (a test play is always of the map being edited)
+        switchMap(({ contents, testing }) =>
+            combineLatest([mode$, damage$, practice$, players$]).pipe(
+                map(([mode, damage, practice, players]) => ({
+                    contents,
+                    testing,
+                    mode: testing ? "map" : mode,
+                    damage,
+                    practice,
+                    players,
+                })),
+            ),
+        ),
+        // Load the ghosts recorded on this map (or in endless mode); test
+        // plays start with none, and keep nothing
+        tap(({ contents, mode, testing }) => {
+            const mapHash = testing ? "" : courseHash(contents, mode);
+            mapHash$.next(mapHash);
+            ghostStore$.next(testing ? [] : loadGhosts(mapHash));
+            scores$.next(testing ? [] : loadScores(mapHash));
+            statsHistory$.next(testing ? [] : loadStats(mapHash));
+            pendingScore$.next(undefined);
+            checkpoints$.next([]);
+            stopTest.disabled = !testing;
+        }),
+        switchMap(({ contents, mode, damage, testing, practice, players }) =>
+            merge(
+                // 11. Open on the title screen, then R Key to restart (straight
+                // to the ready screen); a test play skips the title
+                restart$.pipe(
+                    map(checkpoint => ({ scene: readyScene, checkpoint })),
+                    startWith({
+                        scene: testing ? readyScene : titleScene,
+                        checkpoint: undefined,
+                    }),
+                    // 12. Stream GhostList together with user events
+                    withLatestFrom(ghostStore$, scores$),
+                    tap(() => {
+                        playbackPanel.hidden = true;
+                        pendingScore$.next(undefined); // Too late to enter
+                    }),
+                    map(
+                        (
+                            [{ scene, checkpoint }, ghosts, table], // 12. ghosts: stored ghosts of this map
+                        ) => {
+                            const best = bestEntry(table)?.score ?? 0;
+                            const seed = Math.floor(Math.random() * 0x7fffffff);
+                            const traces = [
+                                ...ghostTraces(
+                                    raceGhosts(
+                                        ghosts,
+                                        ghostSettings$.getValue(),
+                                    ),
+                                ),
+                                ...extraGhosts,
+                            ];
+                            return state$(contents, traces, seed, {
+                                mode,
+                                damage,
+                                scene,
+                                best,
+                                practice,
+                                players,
+                                inputs: inputs$,
+                                autopilot: autopilot$,
+                                rewind: rewinding$,
+                                startFrom: checkpoint?.state,
+                            }).pipe(
+                                // Complete on the game over summary
+                                takeWhile(
+                                    f => f.scene.kind !== "gameOver",
+                                    true,
+                                ),
+                                withSounds(playSound),
+                                // Whether the autopilot flew any of the run
+                                withLatestFrom(
+                                    autopilot$.pipe(
+                                        scan((used, on) => used || on, false),
+                                    ),
+                                ),
+                                // Keep the checkpoints set in practice, and
+                                // list the pipes they can still be set at
+                                tap(([frame]) => {
+                                    recentCheckpoints$.next(
+                                        frame.practice?.recent ?? [],
+                                    );
+                                    const set = frame.practice?.checkpoint;
+                                    if (set) {
+                                        checkpoints$.next(
+                                            addCheckpoint(
+                                                checkpoints$.getValue(),
+                                                set,
+                                            ),
+                                        );
+                                    }
+                                }),
+                                // Show what each bird did; keep the player's
+                                // own single-player runs of the map for its
+                                // heatmap
+                                tap(([{ scene, state: s }, assisted]) => {
+                                    if (scene.kind !== "gameOver") return;
+                                    const stats = runStats(s);
+                                    lastStats$.next(stats);
+                                    const run = {
+                                        practice,
+                                        assisted,
+                                        testing,
+                                        players,
+                                    };
+                                    if (!keepsRun(run)) return;
+                                    statsHistory$.next(
+                                        addRun(
+                                            statsHistory$.getValue(),
+                                            stats[0],
+                                            Date.now(),
+                                        ),
+                                    );
+                                }),
+                                tap(([{ scene, state: s }, assisted]) => {
+                                    // Practice and two-player runs are kept
+                                    // out of replays, ghosts and high scores
+                                    if (practice || players > 1) return;
+                                    if (scene.kind === "gameOver") {
+                                        const replay = createReplay(
+                                            contents,
+                                            seed,
+                                            s,
+                                        );
+                                        // Keep the run around for export
+                                        lastReplay$.next(replay);
+                                        // Autopilot runs are not the player's,
+                                        // and test plays are of a draft map
+                                        if (assisted || testing) return;
+
+                                        const ghostId = nextGhostId(
+                                            ghostStore$.getValue(),
+                                        );
+                                        // 12. Store the run as a ghost
+                                        updateGhosts(ghosts =>
+                                            addGhost(
+                                                ghosts,
+                                                s,
+                                                ghostSettings$.getValue(),
+                                            ),
+                                        );
+                                        // Ask for initials if it made the table
+                                        if (
+                                            qualifies(
+                                                scores$.getValue(),
+                                                s.score,
+                                            )
+                                        ) {
+                                            pendingScore$.next({
+                                                initials: "",
+                                                score: s.score,
+                                                lives: s.lives,
+                                                timeMs: s.timeMs,
+                                                recordedAt: Date.now(),
+                                                ghostId,
+                                                replay,
+                                            });
+                                        }
+                                    }
+                                }),
+                                map(([frame]) => frame),
+                            );
+                        },
+                    ),
+                ),
+                // Watch an imported replay (or one from the table) instead
+                merge(replay$, watch$).pipe(
+                    map(replay => {
+                        const states = replayStates(
+                            replay,
+                            parseMapCsv(contents),
+                        );
+                        showWarnings(
+                            divergenceWarnings(replay, contents, states),
+                        );
+                        playbackPanel.hidden = false;
+                        return playback$(states, playPause, seek).pipe(
+                            withSounds(playSound),
+                        );
+                    }),
+                ),
+            ).pipe(switchAll()),
+        ),
+        // Draw ghosts at the opacity currently set
+        withLatestFrom(ghostSettings$),
+    ).subscribe(([frame, settings]) =>
+        draw(frame, { ghostOpacity: settings.opacity }),
+    ); // Render game state continuously
 }
@@ -0,0 +1,566 @@
+/** ==================== Parsing CSV to SpawnSpec ==================== */
+
+import { type Observable, of, switchMap } from "rxjs";
+
+import { Viewport, bird, type PickupKind, type SpawnSpec } from "./engine.ts";
+
+/*
+ * Map formats (all sizes relative to canvas width/height, times in seconds):
+ *
+ * - v1 CSV: header `gap_y,gap_height,time`, one pipe per row.
+ * - v2 CSV: first line `# version 2`, then a header with the v1 columns plus
+ *   any of the optional behaviour columns below. Empty fields use defaults.
+ * - v3 CSV: first line `# version 3`, then the v2 columns plus an optional
+ *   `pickup` column placing a pickup in the pipe's gap.
+ * - v2/v3 JSON: `{ "version": 2, "pipes": [{ "gap_y": 0.5, ... }] }` with
+ *   the same column names as keys.
+ *
+ * Behaviour columns (v2):
+ *   speed      horizontal speed, canvas widths per second (default 0.25)
+ *   width      pipe width, fraction of canvas width (default 50/600)
+ *   amplitude  how far the gap center swings, fraction of canvas height
+ *   period     seconds per full swing (required when amplitude > 0)
+ *   gap_end    gap height the gap closes/opens to
+ *   gap_time   seconds taken to reach gap_end
+ *
+ * Pickup column (v3):
+ *   pickup     coin, shield, slow or life (empty for none)
+ */
+
+// A problem found in a map file (line and column are 1-based, 0 if unknown)
+export type MapError = Readonly<{
+    line: number;
+    column: number;
+    message: string;
+}>;
+
+// Everything that could be read from a map file
+export type MapParseResult = Readonly<{
+    version: number; // Format version the file declared (1 if none)
+    schedule: SpawnSpec[]; // Valid rows only
+    errors: MapError[]; // Empty if the whole file is valid
+}>;
+
+// Columns every map must have, in any order
+const REQUIRED = ["gap_y", "gap_height", "time"] as const;
+
+// Per-pipe behaviour columns, only allowed from version 2
+const BEHAVIOURS = [
+    "speed",
+    "width",
+    "amplitude",
+    "period",
+    "gap_end",
+    "gap_time",
+] as const;
+
+// Pickup placed in the gap, only allowed from version 3
+const PICKUP = "pickup";
+
+const PICKUP_KINDS: readonly PickupKind[] = ["coin", "shield", "slow", "life"];
+
+type NumberColumn = (typeof REQUIRED)[number] | (typeof BEHAVIOURS)[number];
+type Column = NumberColumn | typeof PICKUP;
+
+// One pipe's values by column
+type Values = Partial<Record<NumberColumn, number>> & { pickup?: PickupKind };
+
+// Latest map format version this parser understands
+export const MAP_VERSION = 3;
+
+// Columns a file of the given version may use
+const columnsOf = (version: number): readonly Column[] =>
+    version >= 3
+        ? [...REQUIRED, ...BEHAVIOURS, PICKUP]
+        : version >= 2
+          ? [...REQUIRED, ...BEHAVIOURS]
+          : REQUIRED;
+
+// Columns that may be left empty
+const OPTIONAL: readonly Column[] = [...BEHAVIOURS, PICKUP];
+
+// A map that always loads, used when the real one cannot be
+export const builtInMapCsv = [
+    "gap_y,gap_height,time",
+    "0.5,0.35,2",
+    "0.4,0.33,4",
+    "0.6,0.33,6",
+    "0.45,0.3,8",
+    "0.55,0.3,10",
+    "0.35,0.3,12",
+    "0.65,0.3,14",
+    "0.5,0.28,16",
+].join("\n");
+
+// A raw value, where it came from, and what to call it in messages
+type Field = Readonly<{
+    text: string;
+    line: number;
+    column: number;
+    name: string;
+}>;
+
+// Split a line on commas, remembering where each field starts
+const splitFields = (line: string, lineNo: number): Field[] =>
+    line.split(",").reduce<Field[]>((fields, text) => {
+        const prev = fields[fields.length - 1];
+        const column = prev ? prev.column + prev.text.length + 1 : 1;
+        return [...fields, { text, line: lineNo, column, name: "" }];
+    }, []);
+
+// Checks the header and finds which field holds each column
+const readHeader = (
+    fields: readonly Field[],
+    version: number,
+): { columns: (Column | undefined)[]; errors: MapError[] } => {
+    const allowed = columnsOf(version) as readonly string[];
+    const names = fields.map(f => f.text.trim());
+    const unknown = fields
+        .filter(f => !allowed.includes(f.text.trim()))
+        .map(f => ({
+            line: f.line,
+            column: f.column,
+            message:
+                `Unknown column "${f.text.trim()}" ` +
+                `(version ${version} allows ${allowed.join(", ")})`,
+        }));
+    const missing = REQUIRED.filter(c => !names.includes(c)).map(c => ({
+        line: fields[0].line,
+        column: 1,
+        message: `Missing column "${c}"`,
+    }));
+    const columns = names.map(n =>
+        allowed.includes(n) ? (n as Column) : undefined,
+    );
+    return { columns, errors: [...unknown, ...missing] };
+};
+
+// Gap heights must leave room for the bird
+const gapRange = {
+    ok: (v: number) => v > bird.HEIGHT / Viewport.CANVAS_HEIGHT && v <= 1,
+    expected:
+        `taller than the bird (> ${bird.HEIGHT / Viewport.CANVAS_HEIGHT}) ` +
+        "and at most 1",
+};
+
+// Bounds of each column, with a description for error messages
+const ranges: Record<
+    NumberColumn,
+    Readonly<{ ok: (v: number) => boolean; expected: string }>
+> = {
+    gap_y: { ok: v => v >= 0 && v <= 1, expected: "between 0 and 1" },
+    gap_height: gapRange,
+    time: { ok: v => v >= 0, expected: "0 or more" },
+    speed: { ok: v => v > 0, expected: "more than 0" },
+    width: { ok: v => v > 0 && v <= 1, expected: "between 0 and 1" },
+    amplitude: { ok: v => v >= 0 && v <= 0.5, expected: "between 0 and 0.5" },
+    period: { ok: v => v >= 0, expected: "0 or more" },
+    gap_end: gapRange,
+    gap_time: { ok: v => v >= 0, expected: "0 or more" },
+};
+
+// Where to point at in an error message
+const errorAt = (f: Field, message: string): MapError => ({
+    line: f.line,
+    column: f.column,
+    message: `${f.name} ${message}`,
+});
+
+/**
+ * Reads one numeric field, checking it against its column's range.
+ *
+ * @param field Field to read
+ * @param column Column the field belongs to
+ * @returns The value, or an error describing what is wrong with it
+ */
+const readNumber = (
+    field: Field,
+    column: NumberColumn,
+): { value: number } | { error: MapError } => {
+    const text = field.text.trim();
+    const value = Number(text);
+    if (text === "" || !Number.isFinite(value)) {
+        return { error: errorAt(field, `"${text}" is not a number`) };
+    }
+    if (!ranges[column].ok(value)) {
+        return {
+            error: errorAt(
+                field,
+                `${value} must be ${ranges[column].expected}`,
+            ),
+        };
+    }
+    return { value };
+};
+
+// Reads a pickup field, which must name a kind of pickup
+const readPickup = (
+    field: Field,
+): { value: PickupKind } | { error: MapError } => {
+    const text = field.text.trim();
+    return (PICKUP_KINDS as readonly string[]).includes(text)
+        ? { value: text as PickupKind }
+        : {
+              error: errorAt(
+                  field,
+                  `"${text}" must be one of ${PICKUP_KINDS.join(", ")}`,
+              ),
+          };
+};
+
+/**
+ * Converts one pipe's normalized values into a SpawnSpec.
+ *
+ * @param v Values by column (behaviours and pickup may be missing)
+ * @returns Spawn spec in pixels and milliseconds
+ */
+const toSpawnSpec = (v: Values): SpawnSpec => {
+    const H = Viewport.CANVAS_HEIGHT;
+    const W = Viewport.CANVAS_WIDTH;
+    return {
+        // Convert normalized gap center and height to pixels
+        gapY: (v.gap_y ?? 0) * H,
+        gapH: (v.gap_height ?? 0) * H,
+        timeMs: (v.time ?? 0) * 1000,
+        // v2 behaviours, only when given
+        ...(v.speed !== undefined && { speed: v.speed * W }),
+        ...(v.width !== undefined && { width: v.width * W }),
+        ...(v.amplitude !== undefined && { amplitude: v.amplitude * H }),
+        ...(v.period !== undefined && { periodMs: v.period * 1000 }),
+        ...(v.gap_end !== undefined && { gapEndH: v.gap_end * H }),
+        ...(v.gap_time !== undefined && { gapChangeMs: v.gap_time * 1000 }),
+        // v3 pickup, only when given
+        ...(v.pickup !== undefined && { pickup: v.pickup }),
+    };
+};
+
+/**
+ * Converts a SpawnSpec back into normalized values, the inverse of
+ * `toSpawnSpec`.
+ *
+ * @param spec Spawn spec in pixels and milliseconds
+ * @returns Values by column (behaviours and pickup only when set)
+ */
+const fromSpawnSpec = (spec: SpawnSpec): Values => {
+    const H = Viewport.CANVAS_HEIGHT;
+    const W = Viewport.CANVAS_WIDTH;
+    return {
+        gap_y: spec.gapY / H,
+        gap_height: spec.gapH / H,
+        time: spec.timeMs / 1000,
+        ...(spec.speed !== undefined && { speed: spec.speed / W }),
+        ...(spec.width !== undefined && { width: spec.width / W }),
+        ...(spec.amplitude !== undefined && { amplitude: spec.amplitude / H }),
+        ...(spec.periodMs !== undefined && { period: spec.periodMs / 1000 }),
+        ...(spec.gapEndH !== undefined && { gap_end: spec.gapEndH / H }),
+        ...(spec.gapChangeMs !== undefined && {
+            gap_time: spec.gapChangeMs / 1000,
+        }),
+        ...(spec.pickup !== undefined && { pickup: spec.pickup }),
+    };
+};
+
+type Row = Readonly<{ fields: readonly [Column, Field][]; at: Field }>;
+type Acc = { schedule: SpawnSpec[]; errors: MapError[]; lastTime: number };
+
+/**
+ * Validates one pipe and appends it to the schedule.
+ *
+ * Empty behaviour and pickup fields are left to their defaults; `time` must
+ * never go backwards and a swinging gap needs a period.
+ */
+const addRow = (acc: Acc, row: Row): Acc => {
+    const present = row.fields.filter(
+        ([c, f]) => !OPTIONAL.includes(c) || f.text.trim() !== "",
+    );
+    const read = present.map(
+        ([c, f]) =>
+            [c, f, c === PICKUP ? readPickup(f) : readNumber(f, c)] as const,
+    );
+    const errors = read.flatMap(([, , r]) => ("error" in r ? [r.error] : []));
+    if (errors.length > 0) {
+        return { ...acc, errors: [...acc.errors, ...errors] };
+    }
+
+    const values: Values = Object.fromEntries(
+        read.map(([c, , r]) => [c, "value" in r ? r.value : 0]),
+    );
+    const fieldOf = (c: Column) =>
+        row.fields.find(([name]) => name === c)?.[1] ?? row.at;
+
+    const time = values.time ?? 0;
+    if (time < acc.lastTime) {
+        const error = errorAt(
+            fieldOf("time"),
+            `${time} is earlier than the previous pipe (${acc.lastTime})`,
+        );
+        return { ...acc, errors: [...acc.errors, error] };
+    }
+    if ((values.amplitude ?? 0) > 0 && !((values.period ?? 0) > 0)) {
+        const error = errorAt(
+            fieldOf("period"),
+            "must be more than 0 when amplitude is set",
+        );
+        return { ...acc, errors: [...acc.errors, error] };
+    }
+
+    return {
+        schedule: [...acc.schedule, toSpawnSpec(values)],
+        errors: acc.errors,
+        lastTime: time,
+    };
+};
+
+// Validates every row, collecting all problems
+const readRows = (rows: readonly Row[]): Acc =>
+    rows.reduce<Acc>(addRow, { schedule: [], errors: [], lastTime: 0 });
+
+// Reports an unsupported version
+const versionError = (line: number, version: string): MapError => ({
+    line,
+    column: 1,
+    message: `Unsupported map version "${version}" (1 to ${MAP_VERSION})`,
+});
+
+/**
+ * Parses and validates a CSV map (v1, or v2 with a `# version 2` line).
+ *
+ * @param csv Map file contents
+ * @returns Version, schedule of valid rows, and every problem found
+ */
+const readCsv = (csv: string): MapParseResult => {
+    const lines = csv.replace(/\s+$/, "").split(/\r?\n/);
+
+    // Optional version line
+    const declared = lines[0].match(/^#\s*version\s+(\S+)\s*$/i)?.[1];
+    const version = declared === undefined ? 1 : Number(declared);
+    if (!(
+        Number.isInteger(version) &&
+        version >= 1 &&
+        version <= MAP_VERSION
+    )) {
+        return {
+            version,
+            schedule: [],
+            errors: [versionError(1, declared ?? "")],
+        };
+    }
+    const headerIdx = declared === undefined ? 0 : 1;
+
+    const header = readHeader(
+        splitFields(lines[headerIdx] ?? "", headerIdx + 1),
+        version,
+    );
+    if (header.errors.length > 0) {
+        return { version, schedule: [], errors: header.errors };
+    }
+
+    const parsed = lines
+        .map((line, i) => ({ line, lineNo: i + 1 }))
+        .slice(headerIdx + 1) // Skip header row
+        .filter(({ line }) => line.trim() !== ""); // Skip blank lines
+
+    const shapeErrors = parsed
+        .map(({ line, lineNo }) => ({ lineNo, count: line.split(",").length }))
+        .filter(({ count }) => count !== header.columns.length)
+        .map(({ lineNo, count }) => ({
+            line: lineNo,
+            column: 1,
+            message: `Expected ${header.columns.length} fields, found ${count}`,
+        }));
+
+    const rows: Row[] = parsed
+        .filter(({ line }) => line.split(",").length === header.columns.length)
+        .map(({ line, lineNo }) => {
+            const fields = splitFields(line, lineNo);
+            return {
+                at: fields[0],
+                fields: fields.map(
+                    (f, i) =>
+                        [
+                            header.columns[i] as Column,
+                            { ...f, name: header.columns[i] as string },
+                        ] as [Column, Field],
+                ),
+            };
+        });
+
+    const result = readRows(rows);
+    const empty =
+        parsed.length === 0
+            ? [
+                  {
+                      line: headerIdx + 1,
+                      column: 1,
+                      message: "Map has no pipe rows",
+                  },
+              ]
+            : [];
+
+    return {
+        version,
+        schedule: result.schedule,
+        errors: [...shapeErrors, ...result.errors, ...empty].sort(
+            (a, b) => a.line - b.line || a.column - b.column,
+        ),
+    };
+};
+
+/**
+ * Parses and validates a JSON map (v2).
+ *
+ * JSON has no useful line numbers, so errors name the offending key instead.
+ *
+ * @param json Map file contents
+ * @returns Version, schedule of valid pipes, and every problem found
+ */
+const readJson = (json: string): MapParseResult => {
+    const fail = (message: string, version = 0): MapParseResult => ({
+        version,
+        schedule: [],
+        errors: [{ line: 0, column: 0, message }],
+    });
+
+    let doc: unknown;
+    try {
+        doc = JSON.parse(json);
+    } catch (err) {
+        return fail(`Invalid JSON: ${(err as Error).message}`);
+    }
+    const { version, pipes } = (doc ?? {}) as {
+        version?: unknown;
+        pipes?: unknown;
+    };
+    if (version !== 2 && version !== 3) {
+        return fail(
+            `Unsupported map version "${version}" (JSON maps are v2 or v3)`,
+        );
+    }
+    if (!Array.isArray(pipes) || pipes.length === 0) {
+        return fail(`"pipes" must be a non-empty array`, version);
+    }
+
+    const allowed = columnsOf(version) as readonly string[];
+    const keyErrors = pipes.flatMap((p, i) => {
+        const keys = typeof p === "object" && p !== null ? Object.keys(p) : [];
+        const unknown = keys
+            .filter(k => !allowed.includes(k))
+            .map(k => `pipes[${i}].${k} is not a known column`);
+        const missing = REQUIRED.filter(c => !keys.includes(c)).map(
+            c => `pipes[${i}].${c} is missing`,
+        );
+        return [...unknown, ...missing].map(message => ({
+            line: 0,
+            column: 0,
+            message,
+        }));
+    });
+    if (keyErrors.length > 0) {
+        return { version, schedule: [], errors: keyErrors };
+    }
+
+    const rows: Row[] = pipes.map((p: Record<string, unknown>, i) => {
+        const fields = Object.entries(p).map(
+            ([k, v]) =>
+                [
+                    k as Column,
+                    {
+                        // Pickups are named, everything else is a number
+                        text:
+                            typeof v === "number" ||
+                            (k === PICKUP && typeof v === "string")
+                                ? `${v}`
+                                : JSON.stringify(v),
+                        line: 0,
+                        column: 0,
+                        name: `pipes[${i}].${k}`,
+                    },
+                ] as [Column, Field],
+        );
+        return { at: fields[0][1], fields };
+    });
+
+    const { schedule, errors } = readRows(rows);
+    return { version, schedule, errors };
+};
+
+/**
+ * Parses and validates a map in any supported format.
+ *
+ * Checks header names, column counts, numeric ranges, that `time` never goes
+ * backwards and that every gap is taller than the bird.
+ *
+ * @param contents Map file contents (CSV or JSON)
+ * @returns Version, schedule of valid pipes, and every problem found
+ */
+// 3. Parse CSV into an array of SpawnSpec objects.
+export const readMapCsv = (contents: string): MapParseResult =>
+    contents.trimStart().startsWith("{")
+        ? readJson(contents)
+        : readCsv(contents);
+
+// Formats an error as "line L, column C: message"
+export const formatMapError = (e: MapError): string =>
+    e.line > 0 ? `line ${e.line}, column ${e.column}: ${e.message}` : e.message;
+
+/**
+ * Writes a schedule in the CSV format `readMapCsv` reads: v1 when every pipe
+ * is a plain static one, else v2 with just the behaviour columns used, or v3
+ * when a pipe carries a pickup.
+ *
+ * @param schedule Spawn schedule, in spawn order
+ * @returns Map file contents
+ */
+export const formatMapCsv = (schedule: readonly SpawnSpec[]): string => {
+    const rows = schedule.map(fromSpawnSpec);
+    const used = OPTIONAL.filter(c => rows.some(r => r[c] !== undefined));
+    const columns: Column[] = [...REQUIRED, ...used];
+    const version = used.includes(PICKUP) ? 3 : used.length > 0 ? 2 : 1;
+    // Seconds to the millisecond, fractions well below a pixel
+    const format = (c: Column, v: number | string | undefined): string =>
+        v === undefined
+            ? ""
+            : typeof v === "string"
+              ? v
+              : `${+v.toFixed(c === "time" ? 3 : 6)}`;
+    return [
+        ...(version > 1 ? [`# version ${version}`] : []),
+        columns.join(","),
+        ...rows.map(r => columns.map(c => format(c, r[c])).join(",")),
+    ].join("\n");
+};
+
+/**
+ * Parses a map that is expected to be valid.
+ *
+ * @param contents Map file contents (CSV or JSON)
+ * @returns Spawn schedule
+ * @throws Error listing every problem if the map is invalid
+ */
+export const parseMapCsv = (contents: string): SpawnSpec[] => {
+    const { schedule, errors } = readMapCsv(contents);
+    if (errors.length > 0) {
+        throw new Error(
+            `Invalid map:\n${errors.map(formatMapError).join("\n")}`,
+        );
+    }
+    return schedule;
+};
+
+/**
+ * Checks every map loaded, handing an invalid one's problems to `fallback`
+ * for the map to play instead (the built-in one, once the player has seen
+ * what is wrong).
+ *
+ * @param fallback Map to use instead of an invalid one, given its problems
+ * @returns Operator from loaded map contents to contents that can be played
+ */
+export const withFallbackMap =
+    (fallback: (errors: readonly MapError[]) => Observable<string>) =>
+    (contents$: Observable<string>): Observable<string> =>
+        contents$.pipe(
+            switchMap(contents => {
+                const { errors } = readMapCsv(contents);
+                return errors.length > 0 ? fallback(errors) : of(contents);
+            }),
+        );
@@ -0,0 +1,129 @@
+/** ==================== Practice Mode ==================== */
+
+import { type State, Constants } from "./engine.ts";
+
+// How far back a practice run can be rewound
+export const REWIND_MS = 10_000;
+
+// Ticks scrubbed back for each tick the rewind key is held
+export const REWIND_SPEED = 2;
+
+// States kept for rewinding
+const HISTORY_TICKS = Math.ceil(REWIND_MS / Constants.TICK_RATE_MS);
+
+// Past states of a practice run: newest first, sharing the older ones like
+// `TraceLog`, so keeping a state never copies the others
+export type History = Readonly<{
+    state: State;
+    before: History | null;
+    length: number;
+}>;
+
+// A point a practice run can be restarted from: just after passing a pipe
+export type Checkpoint = Readonly<{
+    pipe: number; // Pipes passed at that point
+    state: State;
+}>;
+
+// How a practice run is going, for the view and the checkpoint list
+export type PracticeStatus = Readonly<{
+    rewinding: boolean;
+    checkpoint: Checkpoint | null; // Checkpoint set since the last frame
+    recent: readonly Checkpoint[]; // Pipes a checkpoint can still be set at
+}>;
+
+// Keeps the newest `count` states of a history (copies them)
+const newest = (h: History, count: number): History => {
+    const states: State[] = [];
+    let node: History | null = h;
+    while (node && states.length < count) {
+        states.push(node.state);
+        node = node.before;
+    }
+    return states.reduceRight<History | null>(
+        (before, state) => ({
+            state,
+            before,
+            length: (before?.length ?? 0) + 1,
+        }),
+        null,
+    ) as History;
+};
+
+/**
+ * Adds a state to the history. Once it holds twice the states needed to
+ * rewind `REWIND_MS`, the older half is dropped; that copy happens once
+ * every `HISTORY_TICKS` pushes, so a push costs O(1) on average.
+ *
+ * @param h History so far (null when empty)
+ * @param state State to keep
+ * @returns History with the state as its newest
+ */
+export const pushHistory = (h: History | null, state: State): History => {
+    const pushed = { state, before: h, length: (h?.length ?? 0) + 1 };
+    return pushed.length > 2 * HISTORY_TICKS
+        ? newest(pushed, HISTORY_TICKS)
+        : pushed;
+};
+
+/**
+ * Steps back through the history. The oldest state is never dropped, so
+ * holding rewind past it stays there.
+ *
+ * @param h History to rewind
+ * @param ticks States to step back
+ * @returns History with the state rewound to as its newest
+ */
+export const rewind = (h: History, ticks: number): History => {
+    let node = h;
+    for (let i = 0; i < ticks && node.before; i++) node = node.before;
+    return node;
+};
+
+/**
+ * The checkpoint at the last pipe passed: the oldest kept state with as many
+ * pipes passed, which is right after that pipe unless it was passed longer
+ * ago than the history goes back (coins picked up since don't count).
+ *
+ * @param h History of the run
+ * @returns Checkpoint just after the last pipe passed
+ */
+export const pipeCheckpoint = (h: History): Checkpoint => {
+    const pipes = h.state.scoredMs.length;
+    let node = h;
+    while (node.before && node.before.state.scoredMs.length === pipes) {
+        node = node.before;
+    }
+    return { pipe: pipes, state: node.state };
+};
+
+/**
+ * The checkpoints that can still be set from the history: one for every
+ * pipe count it holds, each at the oldest kept state with that many pipes
+ * passed (as `pipeCheckpoint` picks them).
+ *
+ * @param h History of the run
+ * @returns Checkpoints in pipe order
+ */
+export const historyCheckpoints = (h: History): Checkpoint[] => {
+    const checkpoints: Checkpoint[] = [];
+    for (let node: History | null = h; node; node = node.before) {
+        const pipe = node.state.scoredMs.length;
+        const last = checkpoints[checkpoints.length - 1];
+        if (last?.pipe === pipe) {
+            checkpoints[checkpoints.length - 1] = { pipe, state: node.state };
+        } else {
+            checkpoints.push({ pipe, state: node.state });
+        }
+    }
+    return checkpoints.reverse();
+};
+
+// Adds a checkpoint to a list in pipe order, replacing one at the same pipe
+export const addCheckpoint = (
+    checkpoints: readonly Checkpoint[],
+    c: Checkpoint,
+): Checkpoint[] =>
+    [...checkpoints.filter(x => x.pipe !== c.pipe), c].sort(
+        (a, b) => a.pipe - b.pipe,
+    );
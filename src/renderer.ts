@@ -0,0 +1,305 @@
+/** ==================== Renderers ==================== */
+
+import {
+    type EffectKind,
+    type Ghost,
+    type GhostList,
+    type Pickup,
+    type PickupKind,
+    type Pipe,
+    type State,
+    type Vec,
+    Pickups,
+    Viewport,
+    activeEffects,
+    bird,
+    hasEffect,
+    isInvulnerable,
+    isOut,
+    playerView,
+} from "./engine.ts";
+import { traceAt } from "./trace.ts";
+
+// How the playfield is drawn, as set by the player
+export type ViewSettings = Readonly<{
+    ghostOpacity: number; // 0 to 1
+}>;
+
+// Draws the playfield of a state: birds, pipes and ghosts
+export type Renderer = (s: State, view: ViewSettings) => void;
+
+export type RendererKind = "svg" | "canvas";
+
+// Half a blink of the bird while it is invulnerable
+export const BLINK_MS = 100;
+
+// How long the marker of a lost life stays (the crash ending a run stays)
+export const MARKER_MS = 2000;
+
+// Half the size of a crash marker's cross (pixels)
+export const MARKER_SIZE = 6;
+
+export const BIRD_SPRITE = "assets/bird.png";
+
+// Renderer picked with `?renderer=canvas` (SVG otherwise)
+export const rendererKind = (search: string): RendererKind =>
+    new URLSearchParams(search).get("renderer") === "canvas" ? "canvas" : "svg";
+
+// Extra ghosts asked for with `?ghosts=N`, to compare renderers under load
+export const extraGhostCount = (search: string): number =>
+    Math.max(
+        0,
+        Math.floor(Number(new URLSearchParams(search).get("ghosts"))) || 0,
+    );
+
+// Whether the bird is in the dimmed half of a blink
+export const isDimmed = (s: State): boolean =>
+    isInvulnerable(s) && Math.floor(s.timeMs / BLINK_MS) % 2 === 1;
+
+// How long a pickup blinks before it disappears
+export const PICKUP_FADE_MS = 1000;
+
+// How each kind of pickup is drawn: a coloured disc with a letter on it
+export const pickupStyle: Record<
+    PickupKind,
+    Readonly<{ fill: string; label: string }>
+> = {
+    coin: { fill: "gold", label: "$" },
+    shield: { fill: "deepskyblue", label: "S" },
+    slow: { fill: "mediumpurple", label: "T" },
+    life: { fill: "crimson", label: "+" },
+};
+
+// Whether a pickup about to disappear is in the dimmed half of a blink
+export const isPickupDimmed = (k: Pickup): boolean =>
+    k.lifetimeMs - k.ageMs < PICKUP_FADE_MS &&
+    Math.floor(k.ageMs / BLINK_MS) % 2 === 1;
+
+// Radius of the ring drawn around a shielded bird (pixels)
+export const SHIELD_RADIUS = bird.WIDTH / 2 + 4;
+
+// Whether the bird is shielded
+export const isShielded = (s: State): boolean => hasEffect(s, "shield");
+
+const effectNames: Record<EffectKind, string> = {
+    shield: "Shield",
+    slow: "Slow motion",
+};
+
+// Power-ups in effect and the seconds they have left ("-" if none)
+export const effectsText = (s: State): string =>
+    activeEffects(s)
+        .map(
+            ({ kind, remainingMs }) =>
+                `${effectNames[kind]} ${(remainingMs / 1000).toFixed(1)} s`,
+        )
+        .join(", ") || "-";
+
+// Colour the other players' birds are tinted with (player 1's is left as is)
+const PLAYER_TINTS = ["royalblue", "darkorange", "seagreen"];
+
+export const playerTint = (index: number): string =>
+    PLAYER_TINTS[(index - 1) % PLAYER_TINTS.length];
+
+// Whether a player's bird is drawn: a bird that is out disappears, until
+// the run is over and every bird shows where it ended
+export const isBirdShown = (s: State, index: number): boolean =>
+    s.gameEnd || !isOut(playerView(s, index));
+
+// A colour per run, spread around the colour wheel
+export const ghostTint = (id: number): string =>
+    `hsl(${Math.round((id * 137.5) % 360)}, 85%, 45%)`;
+
+// Run number and score shown above a ghost
+export const ghostLabel = (g: Ghost): string => `#${g.id} · ${g.score}`;
+
+/**
+ * Where a ghost lost lives that are still worth marking: recent ones, and
+ * the crash that ended its run once it has happened.
+ *
+ * @param g Ghost
+ * @param timeMs Time into the run
+ * @returns Positions of the markers
+ */
+export const ghostMarkers = (g: Ghost, timeMs: number): Vec[] =>
+    g.hitsMs
+        .filter(
+            (hitMs, i) =>
+                hitMs <= timeMs &&
+                (timeMs - hitMs < MARKER_MS ||
+                    (g.crashed && i === g.hitsMs.length - 1)),
+        )
+        .flatMap(hitMs => {
+            const at = traceAt(g.trace, hitMs);
+            return at ? [at] : [];
+        });
+
+// Top of a pipe's gap, and the bottom of it, kept on the canvas
+export const gapEdges = (
+    p: Pick<Pipe, "gapY" | "gapH">,
+): { top: number; bottom: number } => ({
+    top: Math.max(0, p.gapY - p.gapH / 2),
+    bottom: Math.min(Viewport.CANVAS_HEIGHT, p.gapY + p.gapH / 2),
+});
+
+/**
+ * Makes up ghost traces that wave across the canvas, so the renderers can be
+ * compared with any number of ghosts on screen.
+ *
+ * @param count Number of ghosts
+ * @param ticks Length of each trace
+ * @returns Ghost traces
+ */
+export const syntheticGhosts = (count: number, ticks = 3000): GhostList =>
+    Array.from({ length: count }, (_, i) => ({
+        id: 0,
+        score: 0,
+        crashed: false,
+        trace: {
+            every: 1,
+            points: Array.from({ length: ticks }, (_, t) => ({
+                x: Viewport.CANVAS_WIDTH * 0.3,
+                y:
+                    Viewport.CANVAS_HEIGHT / 2 +
+                    Math.sin(t / 40 + i) * Viewport.CANVAS_HEIGHT * 0.35,
+            })),
+        },
+        hitsMs: [],
+        scoredMs: [],
+    }));
+
+/**
+ * Canvas 2D renderer: clears the canvas and draws pipes, pickups, ghosts and
+ * the birds in a single pass, with no DOM nodes per object.
+ *
+ * @param canvas Canvas to draw on
+ * @returns Renderer drawing onto the canvas
+ */
+export const makeCanvasRenderer = (canvas: HTMLCanvasElement): Renderer => {
+    const ctx = canvas.getContext("2d") as CanvasRenderingContext2D;
+    const sprite = new Image();
+    sprite.src = BIRD_SPRITE;
+
+    const drawBird = (pos: Vec, opacity: number): void => {
+        if (!sprite.complete) return;
+        ctx.globalAlpha = opacity;
+        ctx.drawImage(
+            sprite,
+            pos.x - bird.WIDTH / 2,
+            pos.y - bird.HEIGHT / 2,
+            bird.WIDTH,
+            bird.HEIGHT,
+        );
+    };
+
+    // A tint laid over a bird
+    const drawTint = (pos: Vec, tint: string, opacity: number): void => {
+        ctx.globalAlpha = opacity * 0.5;
+        ctx.fillStyle = tint;
+        ctx.beginPath();
+        ctx.ellipse(
+            pos.x,
+            pos.y,
+            bird.WIDTH / 2,
+            bird.HEIGHT / 2,
+            0,
+            0,
+            2 * Math.PI,
+        );
+        ctx.fill();
+    };
+
+    // A player's bird, tinted unless it is player 1's, ringed if shielded
+    const drawPlayer = (s: State, index: number): void => {
+        if (!isBirdShown(s, index)) return;
+        const view = playerView(s, index);
+        const opacity = isDimmed(view) ? 0.2 : 1;
+        drawBird(view.bird.pos, opacity);
+        if (index > 0) drawTint(view.bird.pos, playerTint(index), opacity);
+        if (isShielded(view)) {
+            ctx.globalAlpha = 0.8;
+            ctx.strokeStyle = pickupStyle.shield.fill;
+            ctx.lineWidth = 3;
+            ctx.beginPath();
+            ctx.arc(
+                view.bird.pos.x,
+                view.bird.pos.y,
+                SHIELD_RADIUS,
+                0,
+                2 * Math.PI,
+            );
+            ctx.stroke();
+        }
+    };
+
+    const drawPickup = (k: Pickup): void => {
+        const { fill, label } = pickupStyle[k.kind];
+        ctx.globalAlpha = isPickupDimmed(k) ? 0.3 : 1;
+        ctx.fillStyle = fill;
+        ctx.beginPath();
+        ctx.arc(k.pos.x, k.pos.y, Pickups.SIZE / 2, 0, 2 * Math.PI);
+        ctx.fill();
+        ctx.stroke();
+        ctx.fillStyle = "black";
+        ctx.fillText(label, k.pos.x, k.pos.y + 4);
+    };
+
+    // A ghost: tinted bird and label while its run goes on, then its markers
+    const drawGhost = (g: Ghost, timeMs: number, opacity: number): void => {
+        const tint = ghostTint(g.id);
+        const pos = traceAt(g.trace, timeMs);
+        if (pos) {
+            drawBird(pos, opacity);
+            drawTint(pos, tint, opacity);
+            ctx.globalAlpha = opacity;
+            ctx.fillStyle = tint;
+            ctx.fillText(ghostLabel(g), pos.x, pos.y - bird.HEIGHT / 2 - 3);
+        }
+        ctx.globalAlpha = opacity;
+        ctx.strokeStyle = tint;
+        ctx.beginPath();
+        ghostMarkers(g, timeMs).forEach(m => {
+            ctx.moveTo(m.x - MARKER_SIZE, m.y - MARKER_SIZE);
+            ctx.lineTo(m.x + MARKER_SIZE, m.y + MARKER_SIZE);
+            ctx.moveTo(m.x + MARKER_SIZE, m.y - MARKER_SIZE);
+            ctx.lineTo(m.x - MARKER_SIZE, m.y + MARKER_SIZE);
+        });
+        ctx.stroke();
+    };
+
+    return (s, view) => {
+        ctx.globalAlpha = 1;
+        ctx.fillStyle = "rgb(154, 154, 154)";
+        ctx.fillRect(0, 0, Viewport.CANVAS_WIDTH, Viewport.CANVAS_HEIGHT);
+
+        ctx.fillStyle = "green";
+        ctx.strokeStyle = "black";
+        ctx.lineWidth = 2;
+        s.pipes.forEach(p => {
+            const { top, bottom } = gapEdges(p);
+            ctx.fillRect(p.x, 0, p.width, top);
+            ctx.strokeRect(p.x, 0, p.width, top);
+            ctx.fillRect(p.x, bottom, p.width, Viewport.CANVAS_HEIGHT - bottom);
+            ctx.strokeRect(
+                p.x,
+                bottom,
+                p.width,
+                Viewport.CANVAS_HEIGHT - bottom,
+            );
+        });
+
+        ctx.font = "bold 12px arial";
+        ctx.textAlign = "center";
+        ctx.lineWidth = 1;
+        s.pickups.forEach(drawPickup);
+
+        ctx.font = "10px arial";
+        ctx.lineWidth = 2;
+        s.ghosts.forEach(g => drawGhost(g, s.timeMs, view.ghostOpacity));
+
+        // Player 1 on top
+        s.others.forEach((_, i) => drawPlayer(s, i + 1));
+        drawPlayer(s, 0);
+        ctx.globalAlpha = 1;
+    };
+};
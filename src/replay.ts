@@ -0,0 +1,221 @@
+/** ==================== Input-based Replays ==================== */
+
+import {
+    bird,
+    Constants,
+    Physics,
+    Pickups,
+    type DamageRules,
+    type GameMode,
+    type SpawnSpec,
+    type State,
+    type TimedInput,
+    createState,
+    isHitShape,
+    simulate,
+    tickCount,
+} from "./engine.ts";
+import { isNumber, isRecord } from "./storage.ts";
+
+// Format version written into every exported replay (files of other versions
+// are refused: version 1 predates swept collisions)
+const REPLAY_VERSION = 2;
+
+// Longest run a replay can hold: an hour of ticks, so a file claiming more
+// cannot make playback build states without end
+export const MAX_REPLAY_TICKS = (60 * 60 * 1000) / Constants.TICK_RATE_MS;
+
+// Every constant that changes how a run plays out
+export type PhysicsSignature = Readonly<Record<string, number>>;
+
+// A recorded run: enough to re-simulate it tick by tick
+export type Replay = Readonly<{
+    version: number; // Replay format version
+    mapHash: string; // Hash of the map CSV the run was played on
+    mode: GameMode; // Map or endless run
+    damage: DamageRules; // Invulnerability, respawn and hit shape of the run
+    seed: number; // Starting PRNG seed of the run
+    flapTicks: readonly number[]; // Tick index of every flap
+    physics: PhysicsSignature; // Constants in effect when recorded
+    result: Readonly<{ score: number; lives: number; ticks: number }>;
+}>;
+
+/**
+ * Hashes map contents (32-bit FNV-1a), ignoring line ending differences.
+ *
+ * @param csv Map file contents
+ * @returns Hash as an 8-digit hex string
+ */
+export const hashMap = (csv: string): string =>
+    Array.from(csv.trim().replace(/\r\n/g, "\n"))
+        .reduce(
+            (h, ch) => Math.imul(h ^ ch.charCodeAt(0), 0x01000193) >>> 0,
+            0x811c9dc5,
+        )
+        .toString(16)
+        .padStart(8, "0");
+
+/**
+ * Identifies what a run was played on: the map's hash, or "endless" for runs
+ * that do not use the map at all.
+ *
+ * @param csv Map file contents
+ * @param mode Mode of the run
+ * @returns Key for replays and stored ghosts
+ */
+export const courseHash = (csv: string, mode: GameMode): string =>
+    mode === "endless" ? "endless" : hashMap(csv);
+
+// Constants of the current build, compared against a replay's
+export const physicsSignature = (): PhysicsSignature => ({
+    ...Physics,
+    ...Pickups,
+    PIPE_WIDTH: Constants.PIPE_WIDTH,
+    PIPE_SPEED_PX_S: Constants.PIPE_SPEED_PX_S,
+    TICK_RATE_MS: Constants.TICK_RATE_MS,
+    BIRD_WIDTH: bird.WIDTH,
+    BIRD_HEIGHT: bird.HEIGHT,
+    SWEPT_COLLISIONS: 1, // Pipes checked all along a tick, not at its end
+});
+
+/**
+ * Records a finished run as a replay.
+ *
+ * @param csv Map file the run was played on
+ * @param seed Starting PRNG seed of the run
+ * @param s Last state of the run
+ * @returns Replay of the run
+ */
+export const createReplay = (csv: string, seed: number, s: State): Replay => ({
+    version: REPLAY_VERSION,
+    mapHash: courseHash(csv, s.mode),
+    mode: s.mode,
+    damage: s.damage,
+    seed,
+    flapTicks: s.flaps,
+    physics: physicsSignature(),
+    result: { score: s.score, lives: s.lives, ticks: tickCount(s) },
+});
+
+// Flaps of a replay as engine inputs, applied before the recorded tick
+const replayInputs = (replay: Replay): TimedInput[] =>
+    replay.flapTicks.map(t => ({
+        timeMs: t * Constants.TICK_RATE_MS,
+        action: "flap",
+    }));
+
+/**
+ * Re-simulates a replay.
+ *
+ * @param replay Replay to rebuild
+ * @param schedule Spawn schedule of the map
+ * @returns Every state of the run, starting with the initial one
+ */
+export const replayStates = (
+    replay: Replay,
+    schedule: readonly SpawnSpec[],
+): State[] => [
+    createState(replay.seed, schedule, [], replay.mode, replay.damage),
+    ...simulate({
+        seed: replay.seed,
+        schedule,
+        mode: replay.mode,
+        damage: replay.damage,
+        inputs: replayInputs(replay),
+        maxTicks: Math.min(replay.result.ticks, MAX_REPLAY_TICKS),
+    }),
+];
+
+/**
+ * Lists the reasons a replay may not play back as recorded.
+ *
+ * @param replay Imported replay
+ * @param csv Map currently loaded
+ * @param states States rebuilt from the replay
+ * @returns Human-readable warnings, empty if nothing diverges
+ */
+export const divergenceWarnings = (
+    replay: Replay,
+    csv: string,
+    states: readonly State[],
+): string[] => {
+    const loaded = courseHash(csv, replay.mode);
+    const mapWarning =
+        replay.mapHash === loaded
+            ? []
+            : [
+                  `Recorded on map ${replay.mapHash}, but map ${loaded} is loaded`,
+              ];
+
+    const current = physicsSignature();
+    const keys = new Set([
+        ...Object.keys(current),
+        ...Object.keys(replay.physics),
+    ]);
+    const physicsWarnings = [...keys]
+        .filter(k => current[k] !== replay.physics[k])
+        .map(
+            k =>
+                `${k} was ${replay.physics[k] ?? "unset"} when recorded, now ${current[k] ?? "unset"}`,
+        );
+
+    const end = states[states.length - 1];
+    const { score, lives, ticks } = replay.result;
+    const resultWarning =
+        end.score === score && end.lives === lives && tickCount(end) === ticks
+            ? []
+            : [
+                  `Recorded score ${score}, lives ${lives}, ticks ${ticks}; ` +
+                      `replayed score ${end.score}, lives ${end.lives}, ticks ${tickCount(end)}`,
+              ];
+
+    return [...mapWarning, ...physicsWarnings, ...resultWarning];
+};
+
+/** ==================== JSON Export / Import ==================== */
+
+// Serialise a replay for download
+export const exportReplay = (replay: Replay): string =>
+    JSON.stringify(replay, null, 2);
+
+// Checks for a tick count a replay can hold
+const isTicks = (v: unknown): v is number =>
+    isNumber(v) && Number.isInteger(v) && v >= 0 && v <= MAX_REPLAY_TICKS;
+
+// Checks flap ticks: tick counts, in the order they happened
+const isFlapTicks = (v: unknown): v is number[] =>
+    Array.isArray(v) &&
+    v.every(isTicks) &&
+    v.every((t, i) => i === 0 || v[i - 1] <= t);
+
+// Checks for a replay of this version, with every field a run needs
+export const isReplay = (r: unknown): r is Replay =>
+    isRecord(r) &&
+    r.version === REPLAY_VERSION &&
+    typeof r.mapHash === "string" &&
+    (r.mode === "map" || r.mode === "endless") &&
+    isRecord(r.damage) &&
+    isNumber(r.damage.invulnerableMs) &&
+    typeof r.damage.respawn === "boolean" &&
+    isHitShape(r.damage.hitShape) &&
+    isNumber(r.seed) &&
+    isFlapTicks(r.flapTicks) &&
+    isRecord(r.physics) &&
+    Object.values(r.physics).every(isNumber) &&
+    isRecord(r.result) &&
+    isNumber(r.result.score) &&
+    isNumber(r.result.lives) &&
+    isTicks(r.result.ticks);
+
+/**
+ * Parses an exported replay.
+ *
+ * @param json File contents
+ * @returns The replay
+ * @throws Error if the file is not a valid replay
+ */
+export const importReplay = (json: string): Replay => {
+    const r: unknown = JSON.parse(json);
+    if (!isReplay(r)) throw new Error("Not a valid replay file");
+    return r;
+};
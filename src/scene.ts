@@ -0,0 +1,115 @@
+/** ==================== Game Scenes ==================== */
+
+import { type State, playersOf, winner } from "./engine.ts";
+import { type PracticeStatus } from "./practice.ts";
+
+// Countdown before the game continues after a pause
+export const RESUME_COUNTDOWN_MS = 3000;
+
+// Where the game is in its lifecycle
+export type Scene = Readonly<
+    | { kind: "title"; hoverMs: number } // Waiting for the player to start
+    | { kind: "ready"; hoverMs: number } // Bird hovers until the first flap
+    | { kind: "playing" }
+    | { kind: "paused"; resumeInMs: number } // 0 = waiting for the player
+    | {
+          kind: "gameOver";
+          score: number;
+          best: number;
+          newBest: boolean;
+          results?: Results; // Runs with several players
+      }
+>;
+
+// How a run with several players went: each one's score, and who won
+export type Results = Readonly<{
+    scores: readonly number[]; // Player 1 first
+    winner: number | null; // Index of the winner (null on a draw)
+}>;
+
+// Everything that can move the game from one scene to another
+export type SceneEvent = Readonly<
+    | { type: "flap" }
+    | { type: "togglePause" } // The pause action
+    | { type: "pause" } // Tab hidden or window left
+    | { type: "elapsed"; ms: number } // Real time passed
+    // The run is over
+    | { type: "ended"; score: number; best: number; results?: Results }
+>;
+
+// What the view draws: the scene, and the state of the run behind it (and
+// how it is going, in practice mode)
+export type Frame = Readonly<{
+    scene: Scene;
+    state: State;
+    practice?: PracticeStatus;
+}>;
+
+export const titleScene: Scene = { kind: "title", hoverMs: 0 };
+export const readyScene: Scene = { kind: "ready", hoverMs: 0 };
+
+// The results of a run's last state
+export const resultsOf = (s: State): Results => ({
+    scores: playersOf(s).map(p => p.score),
+    winner: winner(s),
+});
+
+/**
+ * Moves the game to its next scene. Events that mean nothing in the current
+ * scene leave it unchanged.
+ *
+ * @param scene Current scene
+ * @param event What happened
+ * @returns The next scene
+ */
+export const nextScene = (scene: Scene, event: SceneEvent): Scene => {
+    switch (scene.kind) {
+        case "title":
+            return event.type === "flap"
+                ? readyScene
+                : event.type === "elapsed"
+                  ? { ...scene, hoverMs: scene.hoverMs + event.ms }
+                  : scene;
+        case "ready":
+            return event.type === "flap"
+                ? { kind: "playing" }
+                : event.type === "elapsed"
+                  ? { ...scene, hoverMs: scene.hoverMs + event.ms }
+                  : scene;
+        case "playing":
+            return event.type === "pause" || event.type === "togglePause"
+                ? { kind: "paused", resumeInMs: 0 }
+                : event.type === "ended"
+                  ? {
+                        kind: "gameOver",
+                        score: event.score,
+                        best: Math.max(event.best, event.score),
+                        newBest: event.score > event.best,
+                        ...(event.results && { results: event.results }),
+                    }
+                  : scene;
+        case "paused":
+            // A second toggle during the countdown pauses again
+            return event.type === "pause" ||
+                (event.type === "togglePause" && scene.resumeInMs > 0)
+                ? { kind: "paused", resumeInMs: 0 }
+                : event.type === "togglePause"
+                  ? { kind: "paused", resumeInMs: RESUME_COUNTDOWN_MS }
+                  : event.type === "elapsed" && scene.resumeInMs > 0
+                    ? scene.resumeInMs > event.ms
+                        ? { ...scene, resumeInMs: scene.resumeInMs - event.ms }
+                        : { kind: "playing" }
+                    : scene;
+        case "gameOver":
+            return scene; // Restarting starts a new run
+    }
+};
+
+// Whether the simulation runs in this scene
+export const isRunning = (scene: Scene): boolean => scene.kind === "playing";
+
+// How far the bird bobs up and down while hovering before the run (pixels)
+export const hoverOffset = (scene: Scene): number =>
+    scene.kind === "title" || scene.kind === "ready"
+        ? Math.sin(scene.hoverMs / 250) * 6
+        : 0;
@@ -0,0 +1,110 @@
+/** ==================== High Scores ==================== */
+
+import { type Replay, isReplay } from "./replay.ts";
+import {
+    isNumber,
+    isRecord,
+    readJson,
+    readList,
+    writeJson,
+} from "./storage.ts";
+
+// Entries kept per map (and for endless mode)
+export const TABLE_SIZE = 10;
+
+// A finished run on the high-score table
+export type ScoreEntry = Readonly<{
+    initials: string; // Up to three letters entered by the player
+    score: number;
+    lives: number; // Lives left at the end of the run
+    timeMs: number; // How long the run lasted (simulated time)
+    recordedAt: number; // When the run finished (ms since epoch)
+    ghostId: number; // Ghost stored for the run (may have been evicted since)
+    replay: Replay; // Enough to watch the run again
+}>;
+
+// Storage keys
+const scoresKey = (mapHash: string) => `flappy-bird:scores:${mapHash}`;
+const initialsKey = "flappy-bird:initials";
+
+/* -- Pure table transitions -- */
+
+// Higher scores first, then more lives left, then faster runs, then older
+const ranking = (a: ScoreEntry, b: ScoreEntry): number =>
+    b.score - a.score ||
+    b.lives - a.lives ||
+    a.timeMs - b.timeMs ||
+    a.recordedAt - b.recordedAt;
+
+// Cleans up typed initials: letters and digits only, upper case, at most 3
+export const normaliseInitials = (raw: string): string =>
+    raw
+        .toUpperCase()
+        .replace(/[^A-Z0-9]/g, "")
+        .slice(0, 3) || "???";
+
+// Whether a score earns a place on the table
+export const qualifies = (
+    table: readonly ScoreEntry[],
+    score: number,
+): boolean =>
+    score > 0 &&
+    (table.length < TABLE_SIZE || score > Math.min(...table.map(e => e.score)));
+
+/**
+ * Puts an entry in its place on the table, dropping whatever falls off.
+ *
+ * @param table Current table
+ * @param entry Finished run
+ * @returns Updated table, best first
+ */
+export const insertScore = (
+    table: readonly ScoreEntry[],
+    entry: ScoreEntry,
+): ScoreEntry[] => [...table, entry].sort(ranking).slice(0, TABLE_SIZE);
+
+// Top entry of a table, if any
+export const bestEntry = (
+    table: readonly ScoreEntry[],
+): ScoreEntry | undefined => [...table].sort(ranking)[0];
+
+/* -- Persistence (side effects) -- */
+
+// Checks an entry read back from storage
+const isScoreEntry = (v: unknown): v is ScoreEntry =>
+    isRecord(v) &&
+    typeof v.initials === "string" &&
+    isNumber(v.score) &&
+    isNumber(v.lives) &&
+    isNumber(v.timeMs) &&
+    isNumber(v.recordedAt) &&
+    isNumber(v.ghostId) &&
+    isReplay(v.replay);
+
+// High scores saved for a map (empty if none), leaving out entries not in
+// the expected shape
+export const loadScores = (
+    mapHash: string,
+    storage: Storage = localStorage,
+): ScoreEntry[] => readList(storage, scoresKey(mapHash), isScoreEntry);
+
+// Saves the high scores of a map
+export const saveScores = (
+    mapHash: string,
+    table: readonly ScoreEntry[],
+    storage: Storage = localStorage,
+): void => writeJson(storage, scoresKey(mapHash), table);
+
+// Initials entered last time, to prefill the prompt
+export const loadInitials = (storage: Storage = localStorage): string =>
+    readJson(
+        storage,
+        initialsKey,
+        "",
+        (v): v is string => typeof v === "string",
+    );
+
+export const saveInitials = (
+    initials: string,
+    storage: Storage = localStorage,
+): void => writeJson(storage, initialsKey, initials);
@@ -0,0 +1,308 @@
+/** ==================== Map Solvability ==================== */
+
+import {
+    Constants,
+    Physics,
+    Viewport,
+    bird,
+    type Pipe,
+    type SpawnSpec,
+    type State,
+    birdHitbox,
+    createState,
+    movePipe,
+    overlaps,
+    pipeBottomHitbox,
+    pipeTopHitbox,
+    spawnDue,
+} from "./engine.ts";
+
+// How one pipe fared in the check
+export type PipeReport = Readonly<{
+    index: number; // Position of the pipe in the schedule
+    timeMs: number; // When the pipe spawns
+    gapY: number; // Gap center (pixels)
+    gapH: number; // Gap height (pixels)
+    dy: number; // Move from the previous gap center (+ = down, pixels)
+    rate: number; // Vertical speed that move needs (pixels per second)
+    reachable: boolean; // Whether some flap sequence gets through it
+    difficulty: number; // 0 (relaxed) to 1 (at the limit of the physics)
+}>;
+
+export type SolvabilityReport = Readonly<{
+    solvable: boolean;
+    blocked?: number; // Index of the first pipe no flap sequence gets through
+    pipes: PipeReport[];
+}>;
+
+// Highest and lowest the bird can be after a tick (pixels)
+export type EnvelopeSlice = Readonly<{
+    timeMs: number; // Game time after the tick
+    top: number;
+    bottom: number;
+}>;
+
+// Every height the bird can reach, tick by tick, up to the end of the map
+// or to the pipe no flap sequence gets through
+export type FlightEnvelope = Readonly<{
+    slices: EnvelopeSlice[];
+    blocked?: number; // Index of that pipe
+}>;
+
+// A closed range of bird heights
+type Interval = Readonly<{ lo: number; hi: number }>;
+
+// Heights the bird can be at, grouped by its velocity
+type Reach = ReadonlyMap<number, readonly Interval[]>;
+
+// The tick length, in seconds
+const DT = Constants.TICK_RATE_MS / 1000;
+
+// Velocity after one tick of gravity, clamped like `handleCollisions` does
+const nextVelocity = (v: number): number =>
+    Math.max(
+        -Physics.TERMINAL_VEL,
+        Math.min(Physics.TERMINAL_VEL, v + Physics.GRAVITY * DT),
+    );
+
+// Fastest sustained climb (flapping every tick) and fall
+export const MAX_CLIMB_PX_S = -nextVelocity(Physics.FLAP_VELOCITY);
+export const MAX_FALL_PX_S = Physics.TERMINAL_VEL;
+
+// Height of one flap's arc: the least room the bird needs to hover
+export const HOVER_PX = Physics.FLAP_VELOCITY ** 2 / (2 * Physics.GRAVITY);
+
+// Sorts and joins overlapping (or nearly touching) intervals (in a loop, as
+// this runs for every velocity on every tick)
+const merge = (xs: readonly Interval[]): Interval[] => {
+    const sorted = [...xs].sort((a, b) => a.lo - b.lo);
+    const merged: Interval[] = [];
+    for (const i of sorted) {
+        const last = merged[merged.length - 1];
+        if (last && i.lo <= last.hi + 0.5) {
+            merged[merged.length - 1] = {
+                lo: last.lo,
+                hi: Math.max(last.hi, i.hi),
+            };
+        } else {
+            merged.push(i);
+        }
+    }
+    return merged;
+};
+
+/**
+ * Shifts every interval by the same distance and adds to a group the parts
+ * that are inside the allowed range both before and after the shift.
+ *
+ * @param group Intervals to add to
+ * @param xs Intervals to shift
+ * @param by Distance to shift by
+ * @param allowed Range to keep
+ */
+const shiftInto = (
+    group: Interval[],
+    xs: readonly Interval[],
+    by: number,
+    allowed: Interval,
+): void => {
+    for (const i of xs) {
+        const lo = Math.max(i.lo, allowed.lo, allowed.lo - by) + by;
+        const hi = Math.min(i.hi, allowed.hi, allowed.hi - by) + by;
+        if (lo <= hi) group.push({ lo, hi });
+    }
+};
+
+/**
+ * The heights at which the bird's hitbox touches neither the screen edges
+ * nor any pipe that passes it during the next tick.
+ *
+ * `handleCollisions` sweeps the bird from where it starts the tick to where
+ * it ends it, against the pipes as they move. A bird that starts and ends
+ * the tick inside this range clears that sweep: the range is the same all
+ * along the move, and each pipe counts over all the ground it covers. It
+ * asks more than the game does, as it takes each pipe's whole stretch
+ * rather than where the pipe is when the bird passes a height, and checks
+ * the hitbox rather than the run's tighter hit shape (which only touches
+ * where the hitbox does). A map it lets through is solvable whatever the
+ * hit shape; one it blocks may still just be.
+ *
+ * @param pipes Pipes on screen, before they move
+ * @param x Bird center x
+ * @returns Allowed range of bird center heights
+ */
+const allowedHeights = (pipes: readonly Pipe[], x: number): Interval =>
+    pipes
+        .filter(p => {
+            const rect = birdHitbox(x, 0);
+            const dx = (p.speed * Constants.TICK_RATE_MS) / 1000;
+            return p.x - dx < rect.right && p.x + p.width > rect.left;
+        })
+        .reduce<Interval>(
+            (acc, p) => ({
+                lo: Math.max(acc.lo, pipeTopHitbox(p).bottom + bird.HEIGHT / 2),
+                hi: Math.min(acc.hi, pipeBottomHitbox(p).top - bird.HEIGHT / 2),
+            }),
+            {
+                lo: bird.HEIGHT / 2,
+                hi: Viewport.CANVAS_HEIGHT - bird.HEIGHT / 2,
+            },
+        );
+
+/**
+ * Advances every reachable state by one tick, with and without a flap.
+ *
+ * @param reach Reachable heights by velocity
+ * @param allowed Heights that do not collide during the tick (see
+ * `allowedHeights`)
+ * @returns Reachable heights by velocity after the tick
+ */
+const step = (reach: Reach, allowed: Interval): Reach => {
+    const flapV = nextVelocity(Physics.FLAP_VELOCITY);
+
+    // Group by velocity after the tick, keeping only allowed heights
+    const grouped = new Map<number, Interval[]>();
+    const groupOf = (v: number): Interval[] => {
+        const group = grouped.get(v) ?? [];
+        grouped.set(v, group);
+        return group;
+    };
+    reach.forEach((xs, v) => {
+        const falling = nextVelocity(v);
+        shiftInto(groupOf(falling), xs, falling * DT, allowed);
+        shiftInto(groupOf(flapV), xs, flapV * DT, allowed);
+    });
+
+    const next = new Map<number, Interval[]>();
+    grouped.forEach((xs, v) => {
+        if (xs.length > 0) next.set(v, merge(xs));
+    });
+    return next;
+};
+
+// Moves and culls pipes exactly like `tick` does
+const movePipes = (s: State): State => ({
+    ...s,
+    timeMs: s.timeMs + Constants.TICK_RATE_MS,
+    worldMs: s.worldMs + Constants.TICK_RATE_MS,
+    pipes: s.pipes
+        .map(movePipe(Constants.TICK_RATE_MS))
+        .filter(p => p.x > -p.width),
+});
+
+// When a pipe's left edge reaches the bird (ms from game start)
+const arrivalMs = (spec: SpawnSpec, x: number): number =>
+    spec.timeMs +
+    ((Viewport.CANVAS_WIDTH - x) / (spec.speed ?? Constants.PIPE_SPEED_PX_S)) *
+        1000;
+
+/**
+ * Rates how hard a pipe is from the move it asks for and the room it leaves.
+ *
+ * @param spec Pipe to rate
+ * @param dy Move from the previous gap center (pixels)
+ * @param seconds Time the bird has for that move
+ * @returns The speed the move needs, and a 0–1 difficulty
+ */
+const rate = (
+    spec: SpawnSpec,
+    dy: number,
+    seconds: number,
+): { rate: number; difficulty: number } => {
+    const needed = Math.abs(dy) / Math.max(DT, seconds);
+    const gapH = Math.min(spec.gapH, spec.gapEndH ?? spec.gapH);
+    const tightness = HOVER_PX / Math.max(1, gapH - bird.HEIGHT);
+    const effort = needed / (dy < 0 ? MAX_CLIMB_PX_S : MAX_FALL_PX_S);
+    return {
+        rate: needed,
+        difficulty: Math.min(1, Math.max(tightness, effort)),
+    };
+};
+
+/**
+ * Tracks every height the bird can be at after each tick, for every velocity,
+ * flapping or not, under the game's own `Physics`, and drops heights that hit
+ * a pipe or the screen edge.
+ *
+ * @param schedule Spawn schedule of the map
+ * @returns Range of reachable heights after each tick, and the pipe that
+ * leaves none if there is one
+ */
+export const flightEnvelope = (
+    schedule: readonly SpawnSpec[],
+): FlightEnvelope => {
+    const start = createState(0, schedule);
+    const x = start.bird.pos.x;
+    const birdLeft = x - bird.WIDTH / 2;
+    const birdRight = x + bird.WIDTH / 2;
+
+    const done = (st: State) =>
+        st.nextId - 1 >= schedule.length && st.pipes.length === 0;
+
+    let s = start;
+    let reach: Reach = new Map([
+        [start.bird.velY, [{ lo: start.bird.pos.y, hi: start.bird.pos.y }]],
+    ]);
+    const slices: EnvelopeSlice[] = [];
+
+    while (!done(s)) {
+        s = spawnDue(schedule)(s);
+        reach = step(reach, allowedHeights(s.pipes, x));
+        if (reach.size === 0) {
+            // Blame the newest pipe the bird is inside, else the next one
+            const around = s.pipes.filter(
+                p => p.x < birdRight && p.x + p.width > birdLeft,
+            );
+            const blocker =
+                around[around.length - 1] ??
+                s.pipes.find(p => p.x + p.width >= birdLeft);
+            return { slices, blocked: (blocker?.id ?? 1) - 1 };
+        }
+        let top = Infinity;
+        let bottom = -Infinity;
+        reach.forEach(xs => {
+            top = Math.min(top, xs[0].lo); // Intervals are sorted
+            bottom = Math.max(bottom, xs[xs.length - 1].hi);
+        });
+        slices.push({ timeMs: s.timeMs + Constants.TICK_RATE_MS, top, bottom });
+        s = movePipes(s);
+    }
+    return { slices };
+};
+
+/**
+ * Checks whether a map can be finished without losing a life.
+ *
+ * A map is solvable if some heights in its flight envelope survive until
+ * every pipe has been passed.
+ *
+ * @param schedule Spawn schedule of the map
+ * @returns Whether the map is solvable, and how hard each pipe is
+ */
+export const checkSolvable = (
+    schedule: readonly SpawnSpec[],
+): SolvabilityReport => {
+    const start = createState(0, schedule);
+    const x = start.bird.pos.x;
+    const { blocked } = flightEnvelope(schedule);
+
+    const arrivals = schedule.map(spec => arrivalMs(spec, x));
+    const pipes = schedule.map((spec, index): PipeReport => {
+        const prevY = index > 0 ? schedule[index - 1].gapY : start.bird.pos.y;
+        const prevMs = index > 0 ? arrivals[index - 1] : 0;
+        const dy = spec.gapY - prevY;
+        const r = rate(spec, dy, (arrivals[index] - prevMs) / 1000);
+        return {
+            index,
+            timeMs: spec.timeMs,
+            gapY: spec.gapY,
+            gapH: spec.gapH,
+            dy,
+            rate: r.rate,
+            reachable: blocked === undefined || index < blocked,
+            difficulty: r.difficulty,
+        };
+    });
+
+    return { solvable: blocked === undefined, blocked, pipes };
+};
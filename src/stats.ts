@@ -0,0 +1,149 @@
+/** ==================== Run Statistics ==================== */
+
+import {
+    type LifeLost,
+    type State,
+    NEAR_MISS_PX,
+    isOut,
+    playersOf,
+} from "./engine.ts";
+import {
+    isListOf,
+    isNumber,
+    isRecord,
+    readList,
+    writeJson,
+} from "./storage.ts";
+
+// Runs kept per map (and for endless mode), the oldest dropped first
+export const HISTORY_SIZE = 200;
+
+// Stretch of map time each cell of the death heatmap covers
+export const HEAT_CELL_MS = 500;
+
+// What one bird did in a run, for the summary after it
+export type RunStats = Readonly<{
+    flaps: number;
+    nearMisses: number; // Pipes passed within NEAR_MISS_PX of the gap's edges
+    survivedMs: number; // Until its last life was lost, or the run ended
+    pipesCleared: number;
+    deaths: readonly LifeLost[]; // Where each life was lost
+}>;
+
+// A run as kept across runs: only single-player runs are, so the heatmap
+// holds no second bird's lives
+export type StatsEntry = RunStats &
+    Readonly<{
+        recordedAt: number; // When the run finished (ms since epoch)
+    }>;
+
+// Storage key
+const statsKey = (mapHash: string) => `flappy-bird:stats:${mapHash}`;
+
+/* -- Pure summaries -- */
+
+// What each bird of a run did, player 1 first
+export const runStats = (s: State): RunStats[] =>
+    playersOf(s).map(p => ({
+        flaps: p.flaps.length,
+        nearMisses: p.nearMissesMs.length,
+        survivedMs: isOut(p)
+            ? (p.lostAt[p.lostAt.length - 1]?.timeMs ?? s.timeMs)
+            : s.timeMs,
+        pipesCleared: p.scoredMs.length,
+        deaths: p.lostAt,
+    }));
+
+// How a finished run was played, to tell whether it is kept
+export type RunKind = Readonly<{
+    practice: boolean;
+    assisted: boolean; // The autopilot flew some of it
+    testing: boolean; // A test play from the map editor
+    players: number;
+}>;
+
+// Whether a run is kept for the heatmap: only the player's own
+// single-player runs are
+export const keepsRun = (run: RunKind): boolean =>
+    !run.practice && !run.assisted && !run.testing && run.players === 1;
+
+// Adds a finished single-player run to the history, dropping the oldest
+// past the cap
+export const addRun = (
+    history: readonly StatsEntry[],
+    stats: RunStats,
+    recordedAt: number,
+): StatsEntry[] => [...history, { ...stats, recordedAt }].slice(-HISTORY_SIZE);
+
+/**
+ * Where birds lose their lives along the map: the lives lost in each stretch
+ * of `cellMs` of map time (the time the world had moved, so slow motion does
+ * not shift a death along).
+ *
+ * @param runs Runs to count
+ * @param cellMs Map time per cell
+ * @returns Lives lost per cell, from the start of the map
+ */
+export const deathHeatmap = (
+    runs: readonly RunStats[],
+    cellMs: number = HEAT_CELL_MS,
+): number[] => {
+    const cells = runs.flatMap(r =>
+        r.deaths.map(d => Math.floor(d.worldMs / cellMs)),
+    );
+    const heat = Array<number>(Math.max(-1, ...cells) + 1).fill(0);
+    cells.forEach(i => heat[i]++);
+    return heat;
+};
+
+// The cell where the most lives were lost (the earliest on a tie), if any
+export const deadliestCell = (heat: readonly number[]): number | undefined => {
+    const most = Math.max(0, ...heat);
+    return most > 0 ? heat.indexOf(most) : undefined;
+};
+
+// Statistics of a map's runs as a JSON file, for map designers
+export const exportStats = (
+    mapHash: string,
+    runs: readonly StatsEntry[],
+): string =>
+    JSON.stringify(
+        {
+            mapHash,
+            nearMissPx: NEAR_MISS_PX,
+            heatCellMs: HEAT_CELL_MS,
+            heatmap: deathHeatmap(runs),
+            runs,
+        },
+        null,
+        2,
+    );
+
+/* -- Persistence (side effects) -- */
+
+const isLifeLost = (v: unknown): v is LifeLost =>
+    isRecord(v) && isNumber(v.timeMs) && isNumber(v.worldMs) && isNumber(v.y);
+
+// Checks a run read back from storage
+const isStatsEntry = (v: unknown): v is StatsEntry =>
+    isRecord(v) &&
+    isNumber(v.flaps) &&
+    isNumber(v.nearMisses) &&
+    isNumber(v.survivedMs) &&
+    isNumber(v.pipesCleared) &&
+    isListOf(isLifeLost)(v.deaths) &&
+    isNumber(v.recordedAt);
+
+// Runs kept for a map (empty if none), leaving out entries not in the
+// expected shape
+export const loadStats = (
+    mapHash: string,
+    storage: Storage = localStorage,
+): StatsEntry[] => readList(storage, statsKey(mapHash), isStatsEntry);
+
+// Saves the runs kept for a map
+export const saveStats = (
+    mapHash: string,
+    runs: readonly StatsEntry[],
+    storage: Storage = localStorage,
+): void => writeJson(storage, statsKey(mapHash), runs);
@@ -0,0 +1,105 @@
+/** ==================== Local Storage Helpers ==================== */
+
+// Checks for a finite number
+export const isNumber = (v: unknown): v is number =>
+    typeof v === "number" && Number.isFinite(v);
+
+export const isBoolean = (v: unknown): v is boolean => typeof v === "boolean";
+
+// Checks for a JSON object (not an array)
+export const isRecord = (v: unknown): v is Record<string, unknown> =>
+    typeof v === "object" && v !== null && !Array.isArray(v);
+
+// Checks for an array whose every item passes a check
+export const isListOf =
+    <T>(isItem: (v: unknown) => v is T) =>
+    (v: unknown): v is T[] =>
+        Array.isArray(v) && v.every(isItem);
+
+// Checks for one of a few values
+export const isOneOf =
+    <T>(values: readonly T[]) =>
+    (v: unknown): v is T =>
+        values.includes(v as T);
+
+/**
+ * Reads JSON from storage, checking it has the shape the game expects (a
+ * key edited by hand, or saved by another version, must not reach the
+ * game).
+ *
+ * @param storage Storage to read from
+ * @param key Storage key
+ * @param fallback Value used when the key is missing, unreadable or of
+ * another shape
+ * @param isValid Whether the parsed value has the expected shape
+ * @returns Parsed value or the fallback
+ */
+export const readJson = <T>(
+    storage: Storage,
+    key: string,
+    fallback: T,
+    isValid: (v: unknown) => v is T,
+): T => {
+    try {
+        const raw = storage.getItem(key);
+        if (raw === null) return fallback;
+        const value: unknown = JSON.parse(raw);
+        if (isValid(value)) return value;
+        console.error(`Ignoring ${key} in storage: not in the expected shape`);
+        return fallback;
+    } catch (err) {
+        console.error(`Error reading ${key} from storage:`, err);
+        return fallback;
+    }
+};
+
+// Reads a list from storage, dropping the entries not in the expected shape
+export const readList = <T>(
+    storage: Storage,
+    key: string,
+    isEntry: (v: unknown) => v is T,
+): T[] => readJson<unknown[]>(storage, key, [], Array.isArray).filter(isEntry);
+
+/**
+ * Reads settings from storage: each saved field that passes its check
+ * replaces the default, anything else keeps it.
+ *
+ * @param storage Storage to read from
+ * @param key Storage key
+ * @param defaults Settings used for what is missing or invalid
+ * @param checks Check of each field
+ * @returns Settings
+ */
+export const readSettings = <T extends object>(
+    storage: Storage,
+    key: string,
+    defaults: T,
+    checks: { readonly [K in keyof T]: (v: unknown) => v is T[K] },
+): T => {
+    const saved = readJson(storage, key, {}, isRecord);
+    return Object.fromEntries(
+        Object.entries(defaults).map(([k, d]) => {
+            const check = checks[k as keyof T];
+            return [k, check(saved[k]) ? saved[k] : d];
+        }),
+    ) as T;
+};
+
+/**
+ * Writes JSON to storage, reporting (but surviving) quota errors.
+ *
+ * @param storage Storage to write to
+ * @param key Storage key
+ * @param value Value to serialise
+ */
+export const writeJson = (
+    storage: Storage,
+    key: string,
+    value: unknown,
+): void => {
+    try {
+        storage.setItem(key, JSON.stringify(value));
+    } catch (err) {
+        console.error(`Error writing ${key} to storage:`, err);
+    }
+};
@@ -0,0 +1,98 @@
+/** ==================== Trace Encoding ==================== */
+
+import { type Trace, type TraceLog, type Vec, Constants } from "./engine.ts";
+import { isListOf, isRecord } from "./storage.ts";
+
+// Ticks between the points kept of a finished run (ghosts are interpolated)
+export const TRACE_EVERY = 3;
+
+// Stored coordinates are rounded to 1 / TRACE_SCALE px
+const TRACE_SCALE = 10;
+
+// A run's path as it is stored: quantized steps between kept points
+export type PackedTrace = Readonly<{
+    every: number; // Ticks between points
+    deltas: readonly number[]; // x, y steps from the previous point (from 0, 0)
+}>;
+
+// Checks for a whole number
+const isWhole = (v: unknown): v is number => Number.isInteger(v);
+
+// Checks for a packed trace: whole-number steps, two per point
+export const isPackedTrace = (v: unknown): v is PackedTrace =>
+    isRecord(v) &&
+    isWhole(v.every) &&
+    v.every > 0 &&
+    isListOf(isWhole)(v.deltas) &&
+    v.deltas.length % 2 === 0;
+
+// Points of a recorded path, oldest first
+export const logPoints = (log: TraceLog | null): Vec[] => {
+    const points = new Array<Vec>(log?.length ?? 0);
+    for (let node = log; node; node = node.before) {
+        points[node.length - 1] = node.point;
+    }
+    return points;
+};
+
+/**
+ * Keeps one point every `every` ticks and stores each as a whole-number step
+ * from the one before. Steps are taken between rounded positions, so errors
+ * never add up.
+ *
+ * @param points Path, one point per tick
+ * @param every Ticks between kept points
+ * @returns Packed trace
+ */
+export const packTrace = (
+    points: readonly Vec[],
+    every: number = TRACE_EVERY,
+): PackedTrace => {
+    const kept = points.filter((_, i) => i % every === 0);
+    const quantized = kept.map(p => [
+        Math.round(p.x * TRACE_SCALE),
+        Math.round(p.y * TRACE_SCALE),
+    ]);
+    return {
+        every,
+        deltas: quantized.flatMap(([x, y], i) =>
+            i === 0
+                ? [x, y]
+                : [x - quantized[i - 1][0], y - quantized[i - 1][1]],
+        ),
+    };
+};
+
+// Expands a packed trace back into points for playback
+export const unpackTrace = ({ every, deltas }: PackedTrace): Trace => {
+    const points = new Array<Vec>(deltas.length / 2);
+    let x = 0;
+    let y = 0;
+    for (let i = 0; i < points.length; i++) {
+        x += deltas[2 * i];
+        y += deltas[2 * i + 1];
+        points[i] = { x: x / TRACE_SCALE, y: y / TRACE_SCALE };
+    }
+    return { every, points };
+};
+
+/**
+ * Where a ghost is at a point of its run, between the two kept points around
+ * that time. The first point is where the bird was after the first tick, so
+ * earlier times hold it there.
+ *
+ * @param trace Path of the run
+ * @param timeMs Time into the run
+ * @returns Position, or undefined once the run is over
+ */
+export const traceAt = (trace: Trace, timeMs: number): Vec | undefined => {
+    const at =
+        Math.max(0, timeMs - Constants.TICK_RATE_MS) /
+        (Constants.TICK_RATE_MS * trace.every);
+    const i = Math.floor(at);
+    const a = trace.points[i];
+    if (!a) return undefined;
+    const b = trace.points[i + 1] ?? a;
+    const t = at - i;
+    return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+};
@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { type SoundEvent, makeSoundPlayer, soundEvents } from "../src/audio.ts";
+import { pilot } from "../src/autopilot.ts";
+import {
+    type SpawnSpec,
+    type State,
+    Constants,
+    Viewport,
+    advance,
+    createState,
+    flapR,
+    tick,
+} from "../src/engine.ts";
+
+const H = Viewport.CANVAS_HEIGHT;
+
+// Wide gaps with a coin in the first, then a gap narrower than the bird
+const schedule: SpawnSpec[] = [
+    { gapY: 0.5 * H, gapH: 0.4 * H, timeMs: 500, pickup: "coin" },
+    { gapY: 0.5 * H, gapH: 0.4 * H, timeMs: 2000 },
+    { gapY: 0.5 * H, gapH: 10, timeMs: 3500 },
+];
+
+// A run flown by the autopilot, every state from the first to the last
+const run = (): State[] => {
+    const step = advance(schedule);
+    const states = [
+        createState(5, schedule, [], "map", {
+            invulnerableMs: 0,
+            respawn: false,
+            hitShape: "box",
+        }),
+    ];
+    while (!states[states.length - 1].gameEnd) {
+        states.push(step(pilot(states[states.length - 1])));
+    }
+    return states;
+};
+
+// Every event between consecutive states, in order
+const eventsOf = (states: readonly State[]): SoundEvent[] =>
+    states.slice(1).flatMap((s, i) => soundEvents(states[i], s));
+
+const count = (events: readonly SoundEvent[], e: SoundEvent) =>
+    events.filter(x => x === e).length;
+
+describe("sound events", () => {
+    const states = run();
+    const last = states[states.length - 1];
+    const events = eventsOf(states);
+
+    it("plays each flap, point, pickup and lost life once", () => {
+        expect(last.flaps.length).toBeGreaterThan(0);
+        expect(last.scoredMs.length).toBeGreaterThan(0);
+        expect(last.pickedUp.length).toBe(1);
+        expect(last.hitsMs.length).toBeGreaterThan(0);
+        expect(count(events, "flap")).toBe(last.flaps.length);
+        expect(count(events, "score")).toBe(last.scoredMs.length);
+        expect(count(events, "pickup")).toBe(last.pickedUp.length);
+        expect(count(events, "hit")).toBe(last.hitsMs.length);
+    });
+
+    it("plays game over once, at the end", () => {
+        expect(count(events, "gameOver")).toBe(1);
+        expect(events[events.length - 1]).toBe("gameOver");
+    });
+
+    it("lists an event once however often it happened in between", () => {
+        const s = createState(1, schedule);
+        const twice = tick(flapR(tick(flapR(s))));
+        expect(soundEvents(s, twice)).toEqual(["flap"]);
+    });
+
+    it("is silent while paused", () => {
+        // A paused run shows the same state frame after frame
+        states.forEach(s => expect(soundEvents(s, s)).toEqual([]));
+    });
+
+    it("is silent while rewinding", () => {
+        const rewound = [...states].reverse();
+        expect(eventsOf(rewound)).toEqual([]);
+        // Nor does stepping back a single tick play anything
+        const flapped = states.findIndex(
+            (s, i) => i > 0 && s.flaps.length > states[i - 1].flaps.length,
+        );
+        expect(soundEvents(states[flapped], states[flapped - 1])).toEqual([]);
+        expect(states[flapped].timeMs).toBe(
+            states[flapped - 1].timeMs + Constants.TICK_RATE_MS,
+        );
+    });
+});
+
+describe("sound player", () => {
+    it("stays silent where there is no Web Audio", () => {
+        vi.spyOn(console, "error").mockImplementation(() => {});
+        const play = makeSoundPlayer();
+        expect(() => play("flap", { volume: 1, muted: false })).not.toThrow();
+        expect(() => play("hit", { volume: 1, muted: false })).not.toThrow();
+        expect(console.error).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    type HitShape,
+    type Hitbox,
+    type Pipe,
+    birdHitbox,
+    createState,
+    hitShapes,
+    overlaps,
+    shapeOverlaps,
+    spawnPipe,
+    sweepHit,
+    sweepPipe,
+} from "../src/engine.ts";
+
+// The bird's center, where a run starts
+const x = 180;
+const y = 200;
+
+// A pipe with its left side at left and its gap around the bird
+const pipeAt = (left: number, gapH: number): Pipe => ({
+    ...spawnPipe({ gapY: y, gapH, timeMs: 0 })(createState(1, [])).pipes[0],
+    x: left,
+});
+
+describe("swept collisions", () => {
+    it("hits a pipe corner passed between the ends of a tick", () => {
+        // Right of the bird at the start, under it at the end
+        const corner: Hitbox = { left: 206, right: 256, top: 200, bottom: 400 };
+        const dx = 20;
+        const moved = { ...corner, left: 186, right: 236 };
+        expect(overlaps(birdHitbox(x, 195), corner)).toBe(false);
+        expect(overlaps(birdHitbox(x, 180), moved)).toBe(false);
+        expect(sweepHit("box", x, 195, 180, corner, dx)).toBeCloseTo(0.25);
+    });
+
+    it("hits what a fast bird or pipe skips over in one tick", () => {
+        const ledge: Hitbox = { left: 170, right: 190, top: 190, bottom: 210 };
+        expect(sweepHit("box", x, 100, 300, ledge, 0)).toBeCloseTo(0.375);
+        const pipe: Hitbox = { left: 210, right: 260, top: 0, bottom: 400 };
+        expect(sweepHit("box", x, y, y, pipe, 300)).not.toBeNull();
+    });
+
+    it.each(hitShapes)("misses pipes a pixel clear of a %s", shape => {
+        // The bird moves a pixel either way of center; the gap leaves it a
+        // pixel above and below that, and one cutting a pixel into it is touched
+        const p = pipeAt(170, 34);
+        expect(sweepPipe(shape, x, y - 1, y + 1, p, 16)).toEqual({
+            top: false,
+            bottom: false,
+        });
+        const touched = pipeAt(170, 30);
+        expect(sweepPipe(shape, x, y - 1, y + 1, touched, 16)).toEqual({
+            top: true,
+            bottom: true,
+        });
+    });
+
+    it.each<[string, Hitbox, Record<HitShape, boolean>]>([
+        [
+            "the corner of the box",
+            { left: 150, right: 162, top: 175, bottom: 188 },
+            { box: true, ellipse: false, mask: false },
+        ],
+        [
+            "the tip of the tail",
+            { left: 150, right: 159.5, top: 190, bottom: 196 },
+            { box: true, ellipse: false, mask: true },
+        ],
+        [
+            "the middle of the bird",
+            { left: 175, right: 185, top: 195, bottom: 205 },
+            { box: true, ellipse: true, mask: true },
+        ],
+    ])("tells the shapes apart touching %s", (_, box, hit) => {
+        hitShapes.forEach(shape =>
+            expect(shapeOverlaps(shape, x, y, box)).toBe(hit[shape]),
+        );
+    });
+});
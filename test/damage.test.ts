@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    type DamageRules,
+    type SpawnSpec,
+    type State,
+    Constants,
+    bird,
+    createState,
+    defaultDamageRules,
+    spawnPipe,
+    tick,
+} from "../src/engine.ts";
+
+// A run with one pipe already level with the bird
+const runInto = (spec: SpawnSpec, damage: Partial<DamageRules>): State => {
+    const s = spawnPipe(spec)(
+        createState(1, [], [], "map", { ...defaultDamageRules, ...damage }),
+    );
+    const x = s.bird.pos.x - bird.WIDTH;
+    return { ...s, pipes: s.pipes.map(p => ({ ...p, x })) };
+};
+
+// A pipe wide enough to stay over the bird for seconds, its gap a sliver at
+// the top: the bird touches it on every tick
+const wall: SpawnSpec = { gapY: 0, gapH: 2, timeMs: 0, width: 5000 };
+
+const ticks = (s: State, n: number): State => {
+    for (let i = 0; i < n; i++) s = tick(s);
+    return s;
+};
+
+describe("damage rules", () => {
+    it("takes one life for a contact inside the invulnerability window", () => {
+        const s = runInto(wall, { invulnerableMs: 1500 });
+        // Ticks starting before the window opened by the first tick's hit
+        // closes
+        const window = Math.ceil(
+            (Constants.TICK_RATE_MS + 1500) / Constants.TICK_RATE_MS,
+        );
+        const within = ticks(s, window);
+        expect(within.lives).toBe(s.lives - 1);
+        expect(within.hitsMs).toEqual([Constants.TICK_RATE_MS]);
+        // Still touching once the window is over costs the next life
+        expect(tick(within).lives).toBe(s.lives - 2);
+    });
+
+    it("takes a life on every tick of contact without invulnerability", () => {
+        const s = runInto(wall, { invulnerableMs: 0 });
+        const lives = [1, 2, 3].map(n => ticks(s, n).lives);
+        expect(lives).toEqual([s.lives - 1, s.lives - 2, s.lives - 3]);
+        expect(ticks(s, 3).gameEnd).toBe(true);
+    });
+
+    it("respawns the bird at rest in the middle of the next gap", () => {
+        const gap: SpawnSpec = { gapY: 120, gapH: 60, timeMs: 0 };
+        const s = runInto(gap, { respawn: true });
+        const after = tick(s);
+        expect(after.lives).toBe(s.lives - 1);
+        expect(after.bird.pos.y).toBe(120);
+        expect(after.bird.velY).toBe(0);
+    });
+
+    it("leaves the bird where it was hit without respawn", () => {
+        const gap: SpawnSpec = { gapY: 120, gapH: 60, timeMs: 0 };
+        const after = tick(runInto(gap, { respawn: false }));
+        expect(after.bird.pos.y).not.toBe(120);
+        expect(after.bird.velY).not.toBe(0);
+    });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    type RunConfig,
+    type SpawnSpec,
+    type State,
+    Viewport,
+    runGame,
+    simulate,
+    tickCount,
+} from "../src/engine.ts";
+
+const H = Viewport.CANVAS_HEIGHT;
+
+// A short map: wide gaps around the middle, then one high and one low
+const schedule: SpawnSpec[] = [
+    { gapY: 0.5 * H, gapH: 0.35 * H, timeMs: 500 },
+    { gapY: 0.45 * H, gapH: 0.35 * H, timeMs: 2000 },
+    { gapY: 0.3 * H, gapH: 0.3 * H, timeMs: 3500 },
+    { gapY: 0.7 * H, gapH: 0.3 * H, timeMs: 5000 },
+];
+
+// Flaps every 300 ms for the first 8 seconds
+const inputs = Array.from({ length: 27 }, (_, i) => ({
+    timeMs: 200 + i * 300,
+    action: "flap" as const,
+}));
+
+const config: RunConfig = { seed: 42, schedule, inputs, maxTicks: 5000 };
+
+// The parts of a state that tell runs apart (ghosts and traces aside)
+const summary = (s: State) => ({
+    timeMs: s.timeMs,
+    bird: s.bird,
+    pipes: s.pipes,
+    lives: s.lives,
+    score: s.score,
+    seed: s.seed,
+    hitsMs: s.hitsMs,
+    scoredMs: s.scoredMs,
+    flaps: s.flaps,
+    gameEnd: s.gameEnd,
+});
+
+describe("headless simulation", () => {
+    it("yields the same states for the same seed and inputs", () => {
+        const a = [...simulate(config)].map(summary);
+        const b = [...simulate(config)].map(summary);
+        expect(a.length).toBeGreaterThan(0);
+        expect(b).toEqual(a);
+    });
+
+    it("ends a run the same way every time", () => {
+        const a = runGame(config);
+        const b = runGame(config);
+        expect(summary(b)).toEqual(summary(a));
+        expect(b.score).toBe(a.score);
+        expect(tickCount(b)).toBe(tickCount(a));
+        expect(a.gameEnd).toBe(true);
+    });
+
+    it("gives runGame the last state simulate yields", () => {
+        const states = [...simulate(config)];
+        const last = states[states.length - 1];
+        expect(summary(runGame(config))).toEqual(summary(last));
+        expect(tickCount(last)).toBe(states.length);
+    });
+
+    it("does not depend on the order inputs are given in", () => {
+        const shuffled = { ...config, inputs: [...inputs].reverse() };
+        expect(summary(runGame(shuffled))).toEqual(summary(runGame(config)));
+    });
+
+    it("bounces differently with another seed", () => {
+        // Without flaps the bird falls and bounces off the floor, at random
+        const fall = (seed: number) =>
+            [...simulate({ seed, schedule, maxTicks: 200 })].map(
+                s => s.bird.pos.y,
+            );
+        expect(fall(1)).toEqual(fall(1));
+        expect(fall(2)).not.toEqual(fall(1));
+    });
+});
@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+    type RunConfig,
+    type SpawnSpec,
+    Viewport,
+    simulate,
+} from "../src/engine.ts";
+import {
+    addGhost,
+    defaultGhostSettings,
+    ghostTraces,
+    loadGhostSettings,
+    loadGhosts,
+    raceGap,
+    saveGhosts,
+} from "../src/ghosts.ts";
+import { traceAt } from "../src/trace.ts";
+import { memoryStorage } from "./memoryStorage.ts";
+
+const H = Viewport.CANVAS_HEIGHT;
+
+const schedule: SpawnSpec[] = [
+    { gapY: 0.5 * H, gapH: 0.35 * H, timeMs: 500 },
+    { gapY: 0.45 * H, gapH: 0.35 * H, timeMs: 2000 },
+];
+
+const config: RunConfig = {
+    seed: 3,
+    schedule,
+    inputs: Array.from({ length: 15 }, (_, i) => ({
+        timeMs: 200 + i * 300,
+        action: "flap" as const,
+    })),
+};
+
+// The run, and the same run raced against its own ghost
+const states = [...simulate(config)];
+const ghosts = ghostTraces(
+    addGhost([], states[states.length - 1], defaultGhostSettings),
+);
+const raced = [...simulate({ ...config, ghosts })];
+
+describe("ghost playback", () => {
+    it("keeps a ghost of the same run on the live bird", () => {
+        const [ghost] = ghosts;
+        // On the ticks whose points were kept, up to the rounding of storage
+        const kept = raced.filter((_, i) => i % ghost.trace.every === 0);
+        kept.forEach(s =>
+            expect(traceAt(ghost.trace, s.timeMs)?.y).toBeCloseTo(
+                s.bird.pos.y,
+                1,
+            ),
+        );
+    });
+
+    it("races a run level with its own ghost on every tick", () => {
+        expect(raced.map(raceGap)).toEqual(raced.map(() => 0));
+    });
+});
+
+describe("ghost storage", () => {
+    const key = "flappy-bird:ghosts:abc";
+
+    beforeEach(() => {
+        vi.spyOn(console, "error").mockImplementation(() => {});
+    });
+
+    it("reads back the ghosts it saved", () => {
+        const storage = memoryStorage();
+        const stored = addGhost(
+            [],
+            states[states.length - 1],
+            defaultGhostSettings,
+        );
+        saveGhosts("abc", stored, storage);
+        expect(loadGhosts("abc", storage)).toEqual(stored);
+    });
+
+    it("drops stored ghosts that are not in the expected shape", () => {
+        const [ghost] = addGhost(
+            [],
+            states[states.length - 1],
+            defaultGhostSettings,
+        );
+        const storage = memoryStorage({
+            [key]: JSON.stringify([
+                ghost,
+                { ...ghost, id: "2" },
+                { ...ghost, trace: { every: 3, deltas: [1, 2, 3] } },
+                null,
+            ]),
+        });
+        expect(loadGhosts("abc", storage)).toEqual([ghost]);
+    });
+
+    it("drops ghosts saved before traces were packed", () => {
+        // One point per tick, and no lives, hits or points passed
+        const [ghost] = addGhost(
+            [],
+            states[states.length - 1],
+            defaultGhostSettings,
+        );
+        const old = {
+            id: 1,
+            score: 4,
+            recordedAt: 0,
+            pinned: true,
+            trace: [
+                { x: 180, y: 200 },
+                { x: 180, y: 199.5 },
+            ],
+        };
+        const storage = memoryStorage({
+            [key]: JSON.stringify([old, { ...ghost, id: 2 }]),
+        });
+        const loaded = loadGhosts("abc", storage);
+        expect(loaded).toEqual([{ ...ghost, id: 2 }]);
+        expect(() => ghostTraces(loaded)).not.toThrow();
+    });
+
+    it("finds no ghosts under a key that is not a list", () => {
+        ["{}", "12", "not json"].forEach(raw =>
+            expect(loadGhosts("abc", memoryStorage({ [key]: raw }))).toEqual(
+                [],
+            ),
+        );
+    });
+
+    it("keeps the default of each setting saved wrong", () => {
+        const storage = memoryStorage({
+            "flappy-bird:ghost-settings": JSON.stringify({
+                policy: "oldest",
+                cap: 8,
+                opacity: "0.5",
+            }),
+        });
+        expect(loadGhostSettings(storage)).toEqual({
+            ...defaultGhostSettings,
+            cap: 8,
+        });
+    });
+});
@@ -0,0 +1,241 @@
+import { firstValueFrom, of } from "rxjs";
+import { describe, expect, it, vi } from "vitest";
+
+import type { SpawnSpec } from "../src/engine.ts";
+import {
+    type MapError,
+    builtInMapCsv,
+    formatMapCsv,
+    parseMapCsv,
+    readMapCsv,
+    withFallbackMap,
+} from "../src/map.ts";
+
+const header = "gap_y,gap_height,time";
+
+// Where the problems of a map are, in order
+const errorsAt = (csv: string) =>
+    readMapCsv(csv).errors.map(({ line, column }) => ({ line, column }));
+
+describe("map validation", () => {
+    it("reads a valid map without errors", () => {
+        const { version, schedule, errors } = readMapCsv(
+            `${header}\n0.5,0.35,1\n0.4,0.3,2.5\n`,
+        );
+        expect(version).toBe(1);
+        expect(errors).toEqual([]);
+        expect(schedule).toEqual([
+            { gapY: 200, gapH: 140, timeMs: 1000 },
+            { gapY: 160, gapH: 120, timeMs: 2500 },
+        ]);
+    });
+
+    it.each<[string, string, { line: number; column: number }]>([
+        [
+            "a field that is not a number",
+            "0.5,0.35,1\n0.5,abc,2",
+            { line: 3, column: 5 },
+        ],
+        [
+            "an empty required field",
+            "0.5,0.35,1\n,0.35,2",
+            { line: 3, column: 1 },
+        ],
+        ["a gap center off the canvas", "1.5,0.35,1", { line: 2, column: 1 }],
+        ["a gap shorter than the bird", "0.5,0.05,1", { line: 2, column: 5 }],
+        ["a negative time", "0.5,0.35,-1", { line: 2, column: 10 }],
+        [
+            "a time before the previous pipe's",
+            "0.5,0.35,2\n0.5,0.35,1",
+            { line: 3, column: 10 },
+        ],
+        [
+            "a row with a field missing",
+            "0.5,0.35,1\n0.5,0.35",
+            { line: 3, column: 1 },
+        ],
+    ])("points at %s", (_, rows, at) => {
+        expect(errorsAt(`${header}\n${rows}`)).toEqual([at]);
+    });
+
+    it("names the column in the message", () => {
+        const [error] = readMapCsv(`${header}\n0.5,abc,1`).errors;
+        expect(error.message).toBe('gap_height "abc" is not a number');
+    });
+
+    it("reports a missing column on the header line", () => {
+        const { errors } = readMapCsv("gap_y,time\n0.5,1");
+        expect(errors).toEqual([
+            { line: 1, column: 1, message: 'Missing column "gap_height"' },
+        ]);
+    });
+
+    it("reports a column the version does not allow where it is", () => {
+        expect(errorsAt(`${header},speed\n0.5,0.35,1,0.3`)).toEqual([
+            { line: 1, column: 23 },
+        ]);
+    });
+
+    it("counts lines from the version line", () => {
+        expect(
+            errorsAt(`# version 2\n${header}\n0.5,0.35,1\n2,0.35,2`),
+        ).toEqual([{ line: 4, column: 1 }]);
+    });
+
+    it("collects every problem of the file", () => {
+        expect(errorsAt(`${header}\n0.5,x,1\n0.5,0.35\n2,0.35,3`)).toEqual([
+            { line: 2, column: 5 },
+            { line: 3, column: 1 },
+            { line: 4, column: 1 },
+        ]);
+    });
+
+    it("refuses to parse an invalid map", () => {
+        expect(() => parseMapCsv(`${header}\n0.5,abc,1`)).toThrow(
+            /line 2, column 5/,
+        );
+    });
+});
+
+describe("map formats", () => {
+    const plain: SpawnSpec[] = [
+        { gapY: 200, gapH: 140, timeMs: 1000 },
+        { gapY: 160, gapH: 120, timeMs: 2500 },
+    ];
+    // Every v2 behaviour, on pipes of their own and together
+    const behaviours: SpawnSpec[] = [
+        { gapY: 200, gapH: 140, timeMs: 1000, speed: 210 },
+        { gapY: 180, gapH: 140, timeMs: 2000, width: 90 },
+        { gapY: 100, gapH: 120, timeMs: 3000, amplitude: 40, periodMs: 2000 },
+        { gapY: 200, gapH: 160, timeMs: 4000, gapEndH: 100, gapChangeMs: 1500 },
+        {
+            gapY: 200,
+            gapH: 160,
+            timeMs: 5000,
+            speed: 120,
+            width: 30,
+            amplitude: 20,
+            periodMs: 1000,
+            gapEndH: 80,
+            gapChangeMs: 500,
+        },
+    ];
+    const pickups: SpawnSpec[] = [
+        { gapY: 200, gapH: 140, timeMs: 1000, pickup: "coin" },
+        { gapY: 160, gapH: 120, timeMs: 2500 },
+        { gapY: 180, gapH: 120, timeMs: 4000, pickup: "life" },
+    ];
+
+    it("reads every behaviour of a v2 map", () => {
+        const csv = [
+            "# version 2",
+            `${header},speed,width,amplitude,period,gap_end,gap_time`,
+            "0.5,0.35,1,0.35,,,,,",
+            "0.45,0.35,2,,0.15,,,,",
+            "0.25,0.3,3,,,0.1,2,,",
+            "0.5,0.4,4,,,,,0.25,1.5",
+            "0.5,0.4,5,0.2,0.05,0.05,1,0.2,0.5",
+        ].join("\n");
+        expect(readMapCsv(csv)).toEqual({
+            version: 2,
+            schedule: behaviours,
+            errors: [],
+        });
+    });
+
+    it.each<[string, SpawnSpec[], number]>([
+        ["plain pipes", plain, 1],
+        ["pipe behaviours", behaviours, 2],
+        ["pickups", pickups, 3],
+        [
+            "behaviours and pickups",
+            [
+                ...behaviours,
+                ...pickups.map(p => ({ ...p, timeMs: p.timeMs + 5000 })),
+            ],
+            3,
+        ],
+    ])("reads back %s as written", (_, schedule, version) => {
+        const csv = formatMapCsv(schedule);
+        const read = readMapCsv(csv);
+        expect(read.errors).toEqual([]);
+        expect(read.version).toBe(version);
+        expect(read.schedule).toEqual(schedule);
+    });
+
+    it("writes the lowest version that holds the map", () => {
+        expect(formatMapCsv(plain).split("\n")[0]).toBe(header);
+        expect(formatMapCsv(behaviours.slice(0, 1)).split("\n")).toEqual([
+            "# version 2",
+            `${header},speed`,
+            "0.5,0.35,1,0.35",
+        ]);
+        expect(formatMapCsv(pickups).split("\n").slice(0, 3)).toEqual([
+            "# version 3",
+            `${header},pickup`,
+            "0.5,0.35,1,coin",
+        ]);
+    });
+
+    it("leaves behaviours a pipe does not have empty", () => {
+        const csv = formatMapCsv([plain[0], behaviours[0]]);
+        expect(csv.split("\n").slice(2)).toEqual([
+            "0.5,0.35,1,",
+            "0.5,0.35,1,0.35",
+        ]);
+        expect(readMapCsv(csv).schedule[0]).toEqual(plain[0]);
+    });
+
+    it("reads the same map from JSON", () => {
+        const json = JSON.stringify({
+            version: 3,
+            pipes: [
+                { gap_y: 0.5, gap_height: 0.35, time: 1, speed: 0.35 },
+                { gap_y: 0.45, gap_height: 0.3, time: 2, pickup: "coin" },
+            ],
+        });
+        expect(readMapCsv(json)).toEqual({
+            version: 3,
+            schedule: [
+                { gapY: 200, gapH: 140, timeMs: 1000, speed: 210 },
+                { gapY: 180, gapH: 120, timeMs: 2000, pickup: "coin" },
+            ],
+            errors: [],
+        });
+    });
+
+    it("refuses behaviours in a v1 map and pickups in a v2 map", () => {
+        expect(
+            readMapCsv(`${header},speed\n0.5,0.35,1,0.3`).errors,
+        ).toHaveLength(1);
+        expect(
+            readMapCsv(`# version 2\n${header},pickup\n0.5,0.35,1,coin`).errors,
+        ).toHaveLength(1);
+    });
+});
+
+describe("map fallback", () => {
+    // Plays the built-in map instead, as the player asks to
+    const builtIn = () => vi.fn((_: readonly MapError[]) => of(builtInMapCsv));
+
+    it("keeps a valid map", async () => {
+        const valid = `${header}\n0.5,0.35,1`;
+        const fallback = builtIn();
+        const csv = await firstValueFrom(
+            of(valid).pipe(withFallbackMap(fallback)),
+        );
+        expect(csv).toBe(valid);
+        expect(fallback).not.toHaveBeenCalled();
+    });
+
+    it("plays the built-in map when the map cannot be read", async () => {
+        const invalid = `${header}\n0.5,abc,1`;
+        const fallback = builtIn();
+        const csv = await firstValueFrom(
+            of(invalid).pipe(withFallbackMap(fallback)),
+        );
+        expect(fallback).toHaveBeenCalledWith(readMapCsv(invalid).errors);
+        expect(csv).toBe(builtInMapCsv);
+        expect(readMapCsv(csv).errors).toEqual([]);
+    });
+});
@@ -0,0 +1,15 @@
+// A Storage kept in memory, for the parts of the game that save to
+// localStorage
+export const memoryStorage = (items: Record<string, string> = {}): Storage => {
+    const data = new Map(Object.entries(items));
+    return {
+        get length() {
+            return data.size;
+        },
+        clear: () => data.clear(),
+        getItem: key => data.get(key) ?? null,
+        key: i => [...data.keys()][i] ?? null,
+        removeItem: key => void data.delete(key),
+        setItem: (key, value) => void data.set(key, value),
+    };
+};
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    type Profile,
+    generateFromProfile,
+    readProfiles,
+} from "../scripts/patterns.ts";
+import shipped from "../scripts/profiles.json";
+
+// One stage of a profile, with its choices tuned by params
+const profileWith = (stage: object, params: object = {}): unknown => ({
+    test: {
+        stages: [
+            {
+                segments: 4,
+                choices: [{ pattern: "staircase", weight: 1, params }],
+                ...stage,
+            },
+        ],
+    },
+});
+
+describe("difficulty profiles", () => {
+    it("reads the profiles shipped with the generator", () => {
+        expect(Object.keys(readProfiles(shipped))).toEqual([
+            "easy",
+            "normal",
+            "hard",
+            "ramp",
+        ]);
+    });
+
+    it.each<[string, unknown]>([
+        ["a parameter given as text", profileWith({}, { step: "0.1" })],
+        ["a range the wrong way round", profileWith({}, { step: [0.2, 0.1] })],
+        ["a range of three values", profileWith({}, { step: [0, 0.1, 0.2] })],
+        ["an unknown parameter", profileWith({}, { steep: 0.1 })],
+        ["a fraction of a segment", profileWith({ segments: 2.5 })],
+        ["no segments", profileWith({ segments: 0 })],
+        ["a rest after every 0 segments", profileWith({ restEvery: 0 })],
+        ["a rest after every -2 segments", profileWith({ restEvery: -2 })],
+        [
+            "a weight given as text",
+            profileWith({ choices: [{ pattern: "rest", weight: "1" }] }),
+        ],
+        [
+            "an unknown pattern",
+            profileWith({ choices: [{ pattern: "loop", weight: 1 }] }),
+        ],
+        ["no stages", { test: { stages: [] } }],
+        ["a list of profiles", [{ stages: [] }]],
+    ])("refuses %s", (_, raw) => {
+        expect(() => readProfiles(raw)).toThrow(/Profile/);
+    });
+
+    it("takes fixed values and ranges", () => {
+        const raw = profileWith(
+            { restEvery: 2 },
+            { step: [0.05, 0.05], spacing: 1.5 },
+        );
+        expect(readProfiles(raw)).toEqual(raw);
+    });
+});
+
+describe("maps from profiles", () => {
+    const profiles = readProfiles(shipped);
+
+    it("lays out the same map for the same seed", () => {
+        Object.values(profiles).forEach(profile => {
+            const map = generateFromProfile(profile, 7, 2);
+            expect(generateFromProfile(profile, 7, 2)).toEqual(map);
+            expect(generateFromProfile(profile, 8, 2)).not.toEqual(map);
+            map.pipes.forEach(p => {
+                expect(p.gap_y).toBeGreaterThan(0);
+                expect(p.gap_y).toBeLessThan(1);
+            });
+        });
+    });
+
+    it("never picks the same pattern twice in a row with noRepeat", () => {
+        // One pattern far likelier than the rest, so repeats are the rule
+        const profile = (noRepeat: boolean): Profile => ({
+            stages: [
+                {
+                    segments: 30,
+                    noRepeat,
+                    choices: [
+                        { pattern: "tunnel", weight: 20 },
+                        { pattern: "zigzag", weight: 1 },
+                        { pattern: "rest", weight: 1 },
+                    ],
+                },
+            ],
+        });
+        const repeats = (sequence: readonly string[]) =>
+            sequence.filter((p, i) => i > 0 && sequence[i - 1] === p).length;
+        for (let seed = 1; seed <= 5; seed++) {
+            expect(
+                repeats(generateFromProfile(profile(true), seed, 2).sequence),
+            ).toBe(0);
+            expect(
+                repeats(generateFromProfile(profile(false), seed, 2).sequence),
+            ).toBeGreaterThan(0);
+        }
+    });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+
+import { type State, createState } from "../src/engine.ts";
+import {
+    type History,
+    addCheckpoint,
+    historyCheckpoints,
+    pipeCheckpoint,
+    pushHistory,
+    rewind,
+} from "../src/practice.ts";
+
+// A run's history, a tick every 10 ms, passing a pipe at each of `passedMs`
+const historyOf = (ticks: number, passedMs: readonly number[]): History => {
+    const start = createState(1, []);
+    let h: History | null = null;
+    for (let t = 0; t < ticks; t++) {
+        const timeMs = t * 10;
+        const state: State = {
+            ...start,
+            timeMs,
+            scoredMs: passedMs.filter(ms => ms <= timeMs),
+        };
+        h = pushHistory(h, state);
+    }
+    return h as History;
+};
+
+// Pipe and time of each checkpoint, in order
+const at = (checkpoints: readonly { pipe: number; state: State }[]) =>
+    checkpoints.map(c => ({ pipe: c.pipe, timeMs: c.state.timeMs }));
+
+describe("practice checkpoints", () => {
+    const h = historyOf(100, [200, 500]);
+
+    it("lists a checkpoint just after every pipe in the history", () => {
+        expect(at(historyCheckpoints(h))).toEqual([
+            { pipe: 0, timeMs: 0 },
+            { pipe: 1, timeMs: 200 },
+            { pipe: 2, timeMs: 500 },
+        ]);
+    });
+
+    it("sets the checkpoint at the pipe rewound to", () => {
+        expect(at([pipeCheckpoint(h)])).toEqual([{ pipe: 2, timeMs: 500 }]);
+        // Back to 400 ms, between the two pipes
+        expect(at([pipeCheckpoint(rewind(h, 59))])).toEqual([
+            { pipe: 1, timeMs: 200 },
+        ]);
+        // Rewinding drops the later pipe from the list
+        expect(at(historyCheckpoints(rewind(h, 59)))).toEqual([
+            { pipe: 0, timeMs: 0 },
+            { pipe: 1, timeMs: 200 },
+        ]);
+    });
+
+    it("starts the list at the oldest state kept", () => {
+        // 20 s of ticks: the first pipe is older than the history
+        const long = historyOf(2000, [200, 15_000]);
+        const [first, second] = historyCheckpoints(long);
+        expect(first.pipe).toBe(1);
+        expect(first.state.timeMs).toBeGreaterThan(200);
+        expect(at([second])).toEqual([{ pipe: 2, timeMs: 15_000 }]);
+    });
+
+    it("keeps checkpoints in pipe order, one per pipe", () => {
+        const [zero, one, two] = historyCheckpoints(h);
+        const list = addCheckpoint(addCheckpoint([two], zero), one);
+        expect(list.map(c => c.pipe)).toEqual([0, 1, 2]);
+        const again = { pipe: 1, state: h.state };
+        expect(addCheckpoint(list, again)).toEqual([zero, again, two]);
+    });
+});
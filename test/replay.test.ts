@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+
+import { runGame } from "../src/engine.ts";
+import {
+    MAX_REPLAY_TICKS,
+    createReplay,
+    exportReplay,
+    importReplay,
+} from "../src/replay.ts";
+
+const csv = "gap_y,gap_height,time\n0.5,0.35,0.5\n0.45,0.35,2\n";
+
+// A recorded run, as exported
+const replay = createReplay(
+    csv,
+    7,
+    runGame({
+        seed: 7,
+        schedule: [],
+        inputs: [100, 400, 700].map(timeMs => ({ timeMs, action: "flap" })),
+        maxTicks: 100,
+    }),
+);
+
+// The exported replay with some fields changed
+const tampered = (changes: object): string =>
+    JSON.stringify({ ...JSON.parse(exportReplay(replay)), ...changes });
+
+describe("replay import", () => {
+    it("reads back an exported replay", () => {
+        expect(importReplay(exportReplay(replay))).toEqual(replay);
+    });
+
+    it("rejects other versions and missing run settings", () => {
+        expect(() => importReplay(tampered({ version: 1 }))).toThrow();
+        expect(() => importReplay(tampered({ mode: undefined }))).toThrow();
+        expect(() => importReplay(tampered({ damage: undefined }))).toThrow();
+        const noShape = { invulnerableMs: 1500, respawn: false };
+        expect(() => importReplay(tampered({ damage: noShape }))).toThrow();
+    });
+
+    it("rejects tick counts no run could have", () => {
+        const result = (ticks: number) =>
+            tampered({ result: { ...replay.result, ticks } });
+        expect(() => importReplay(result(1e12))).toThrow();
+        expect(() => importReplay(result(MAX_REPLAY_TICKS + 1))).toThrow();
+        expect(() => importReplay(result(-1))).toThrow();
+        expect(() => importReplay(result(2.5))).toThrow();
+        expect(() => importReplay(result(MAX_REPLAY_TICKS))).not.toThrow();
+    });
+
+    it("rejects flap ticks that are not counts in order", () => {
+        const flaps = (flapTicks: number[]) => tampered({ flapTicks });
+        expect(() => importReplay(flaps([5, 3]))).toThrow();
+        expect(() => importReplay(flaps([-1, 3]))).toThrow();
+        expect(() => importReplay(flaps([1.5]))).toThrow();
+        expect(() => importReplay(flaps([3, 3, 8]))).not.toThrow();
+    });
+});
@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    type Scene,
+    type SceneEvent,
+    RESUME_COUNTDOWN_MS,
+    nextScene,
+    readyScene,
+    titleScene,
+} from "../src/scene.ts";
+import { qualifies } from "../src/scores.ts";
+
+const flap: SceneEvent = { type: "flap" };
+const togglePause: SceneEvent = { type: "togglePause" };
+const pause: SceneEvent = { type: "pause" };
+const elapsed = (ms: number): SceneEvent => ({ type: "elapsed", ms });
+const ended = (score: number, best: number): SceneEvent => ({
+    type: "ended",
+    score,
+    best,
+});
+
+const playing: Scene = { kind: "playing" };
+const paused: Scene = { kind: "paused", resumeInMs: 0 };
+const resuming: Scene = { kind: "paused", resumeInMs: RESUME_COUNTDOWN_MS };
+const gameOver: Scene = { kind: "gameOver", score: 4, best: 9, newBest: false };
+
+// Plays events from a scene, keeping every scene it goes through
+const path = (from: Scene, events: readonly SceneEvent[]): Scene[] =>
+    events.reduce(
+        (scenes, e) => [...scenes, nextScene(scenes.at(-1)!, e)],
+        [from],
+    );
+
+describe("scene transitions", () => {
+    it.each<[string, Scene, SceneEvent, Scene]>([
+        ["title starts on a flap", titleScene, flap, readyScene],
+        ["ready plays on a flap", readyScene, flap, playing],
+        ["playing pauses on the pause action", playing, togglePause, paused],
+        ["playing pauses when the tab is left", playing, pause, paused],
+        [
+            "pause counts down on the pause action",
+            paused,
+            togglePause,
+            resuming,
+        ],
+        [
+            "a second pause action stops the countdown",
+            resuming,
+            togglePause,
+            paused,
+        ],
+        [
+            "the countdown ticks",
+            resuming,
+            elapsed(1000),
+            { kind: "paused", resumeInMs: RESUME_COUNTDOWN_MS - 1000 },
+        ],
+        [
+            "the countdown ends in play",
+            resuming,
+            elapsed(RESUME_COUNTDOWN_MS),
+            playing,
+        ],
+        [
+            "title hovers as time passes",
+            titleScene,
+            elapsed(100),
+            { kind: "title", hoverMs: 100 },
+        ],
+        [
+            "ready hovers as time passes",
+            readyScene,
+            elapsed(100),
+            { kind: "ready", hoverMs: 100 },
+        ],
+        ["playing ends in the summary", playing, ended(4, 9), gameOver],
+        [
+            "a better score is a new best",
+            playing,
+            ended(12, 9),
+            { kind: "gameOver", score: 12, best: 12, newBest: true },
+        ],
+    ])("%s", (_, from, event, to) => {
+        expect(nextScene(from, event)).toEqual(to);
+    });
+
+    it.each<[string, Scene, SceneEvent]>([
+        ["title ignores pausing", titleScene, togglePause],
+        ["title ignores an end", titleScene, ended(1, 0)],
+        ["ready ignores pausing", readyScene, pause],
+        ["playing ignores flaps", playing, flap],
+        ["playing ignores time", playing, elapsed(100)],
+        ["pause waits without a countdown", paused, elapsed(5000)],
+        ["pause ignores flaps", paused, flap],
+        ["pause ignores an end", resuming, ended(1, 0)],
+        ["the summary ignores flaps", gameOver, flap],
+        ["the summary ignores pausing", gameOver, togglePause],
+        ["the summary ignores time", gameOver, elapsed(100)],
+    ])("%s", (_, from, event) => {
+        expect(nextScene(from, event)).toBe(from);
+    });
+
+    it("goes from the title through a pause and back to play", () => {
+        const kinds = path(titleScene, [
+            flap,
+            flap,
+            togglePause,
+            togglePause,
+            elapsed(RESUME_COUNTDOWN_MS),
+        ]).map(s => s.kind);
+        expect(kinds).toEqual([
+            "title",
+            "ready",
+            "playing",
+            "paused",
+            "paused",
+            "playing",
+        ]);
+    });
+
+    it("ends on a summary that asks for initials or restarts", () => {
+        const end = path(readyScene, [flap, ended(12, 9)]).at(-1)!;
+        expect(end).toEqual({
+            kind: "gameOver",
+            score: 12,
+            best: 12,
+            newBest: true,
+        });
+        // A score that makes the table waits for initials
+        expect(qualifies([], 12)).toBe(true);
+        // Restarting is a new run on the ready screen: the summary stays put
+        expect(nextScene(end, flap)).toBe(end);
+        expect(nextScene(readyScene, flap)).toEqual(playing);
+    });
+
+    it("carries the results of a run with several players", () => {
+        const results = { scores: [3, 5], winner: 1 };
+        expect(
+            nextScene(playing, { type: "ended", score: 3, best: 0, results }),
+        ).toMatchObject({ kind: "gameOver", results });
+    });
+});
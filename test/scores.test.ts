@@ -0,0 +1,121 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { runGame } from "../src/engine.ts";
+import { createReplay } from "../src/replay.ts";
+import {
+    type ScoreEntry,
+    TABLE_SIZE,
+    bestEntry,
+    insertScore,
+    loadScores,
+    normaliseInitials,
+    qualifies,
+    saveScores,
+} from "../src/scores.ts";
+import { memoryStorage } from "./memoryStorage.ts";
+
+const csv = "gap_y,gap_height,time\n0.5,0.35,0.5\n0.45,0.35,2\n";
+
+// Replay of a short run from the given seed
+const replayOf = (seed: number) =>
+    createReplay(
+        csv,
+        seed,
+        runGame({
+            seed,
+            schedule: [],
+            inputs: [100, 400].map(timeMs => ({ timeMs, action: "flap" })),
+            maxTicks: 50,
+        }),
+    );
+
+// An entry on the table, with its own replay
+const entry = (
+    score: number,
+    changes: Partial<ScoreEntry> = {},
+): ScoreEntry => ({
+    initials: "AAA",
+    score,
+    lives: 1,
+    timeMs: 10_000,
+    recordedAt: 1000,
+    ghostId: score,
+    replay: replayOf(score),
+    ...changes,
+});
+
+// Scores of a table, best first
+const scoresOf = (table: readonly ScoreEntry[]) => table.map(e => e.score);
+
+describe("high-score table", () => {
+    it("ranks ties by lives left, then time, then age", () => {
+        const moreLives = entry(5, { lives: 3, ghostId: 1 });
+        const faster = entry(5, { timeMs: 8000, ghostId: 2 });
+        const older = entry(5, { recordedAt: 500, ghostId: 3 });
+        const newer = entry(5, { ghostId: 4 });
+        const table = [newer, older, faster, moreLives].reduce(insertScore, []);
+        expect(table.map(e => e.ghostId)).toEqual([1, 2, 3, 4]);
+        expect(bestEntry([newer, moreLives])).toBe(moreLives);
+    });
+
+    it("lets any score in while the table has room", () => {
+        const table = [3, 8].map(s => entry(s));
+        expect(qualifies(table, 1)).toBe(true);
+        expect(qualifies(table, 0)).toBe(false);
+        expect(qualifies([], 1)).toBe(true);
+    });
+
+    it("keeps a full table to the best entries", () => {
+        const full = Array.from({ length: TABLE_SIZE }, (_, i) =>
+            entry(i + 1),
+        ).reduce(insertScore, []);
+        expect(full).toHaveLength(TABLE_SIZE);
+        expect(scoresOf(full)).toEqual([10, 9, 8, 7, 6, 5, 4, 3, 2, 1]);
+        // Tying the lowest score is not enough
+        expect(qualifies(full, 1)).toBe(false);
+        expect(qualifies(full, 2)).toBe(true);
+        const updated = insertScore(full, entry(6, { lives: 2 }));
+        expect(updated).toHaveLength(TABLE_SIZE);
+        expect(scoresOf(updated)).toEqual([10, 9, 8, 7, 6, 6, 5, 4, 3, 2]);
+        expect(updated[4].lives).toBe(2);
+    });
+
+    it("keeps each entry's replay with it", () => {
+        const table = [4, 9, 2].map(s => entry(s)).reduce(insertScore, []);
+        table.forEach(e => expect(e.replay).toEqual(replayOf(e.score)));
+        expect(table[0].replay.seed).toBe(9);
+    });
+
+    it("cleans up typed initials", () => {
+        expect(normaliseInitials("a.b-cdef")).toBe("ABC");
+        expect(normaliseInitials("!!")).toBe("???");
+    });
+});
+
+describe("high-score storage", () => {
+    beforeEach(() => {
+        vi.spyOn(console, "error").mockImplementation(() => {});
+    });
+
+    it("reads back the table with its replays", () => {
+        const storage = memoryStorage();
+        const table = [7, 3].map(s => entry(s));
+        saveScores("map", table, storage);
+        expect(loadScores("map", storage)).toEqual(table);
+        expect(loadScores("other", storage)).toEqual([]);
+    });
+
+    it("drops entries that are not in the expected shape", () => {
+        const kept = entry(7);
+        const { replay: _, ...noReplay } = entry(5);
+        const storage = memoryStorage({
+            "flappy-bird:scores:map": JSON.stringify([
+                kept,
+                noReplay,
+                { ...entry(4), score: "4" },
+                { ...entry(3), replay: { ...replayOf(3), flapTicks: [5, 3] } },
+            ]),
+        });
+        expect(loadScores("map", storage)).toEqual([kept]);
+    });
+});
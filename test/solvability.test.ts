@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+
+import mapCsv from "../assets/map.csv?raw";
+import mapV2Csv from "../assets/map_v2.csv?raw";
+import mapV3Csv from "../assets/map_v3.csv?raw";
+import { type Pipe, checkPipes, repair, toCsv } from "../scripts/pipes.ts";
+import { Viewport, bird } from "../src/engine.ts";
+import { parseMapCsv } from "../src/map.ts";
+import { checkSolvable, flightEnvelope } from "../src/solvability.ts";
+
+// A narrow gap near the top, then one near the bottom a second later
+const tooFar: Pipe[] = [
+    { gap_y: 0.5, gap_height: 0.3, time: 1 },
+    { gap_y: 0.2, gap_height: 0.2, time: 3 },
+    { gap_y: 0.8, gap_height: 0.2, time: 4 },
+    { gap_y: 0.5, gap_height: 0.3, time: 6 },
+];
+
+describe("solvability check", () => {
+    it.each([
+        ["map.csv", mapCsv],
+        ["map_v2.csv", mapV2Csv],
+        ["map_v3.csv", mapV3Csv],
+    ])("passes the shipped %s", (_, csv) => {
+        const report = checkSolvable(parseMapCsv(csv));
+        expect(report.blocked).toBeUndefined();
+        expect(report.solvable).toBe(true);
+        expect(report.pipes.every(p => p.reachable)).toBe(true);
+    });
+
+    it("blocks at a gap too far from the one before", () => {
+        const report = checkPipes(tooFar);
+        expect(report.solvable).toBe(false);
+        expect(report.blocked).toBe(2);
+        expect(report.pipes.map(p => p.reachable)).toEqual([
+            true,
+            true,
+            false,
+            false,
+        ]);
+    });
+
+    it("keeps the envelope on screen, and stops it at the blocked pipe", () => {
+        const open = flightEnvelope(parseMapCsv(mapCsv));
+        expect(open.blocked).toBeUndefined();
+        open.slices.forEach(s => {
+            expect(s.top).toBeLessThanOrEqual(s.bottom);
+            // Up to rounding
+            expect(s.top).toBeGreaterThan(bird.HEIGHT / 2 - 1e-9);
+            expect(s.bottom).toBeLessThan(
+                Viewport.CANVAS_HEIGHT - bird.HEIGHT / 2 + 1e-9,
+            );
+        });
+        const blocked = flightEnvelope(parseMapCsv(toCsv(tooFar)));
+        expect(blocked.blocked).toBe(2);
+        expect(blocked.slices.length).toBeLessThan(open.slices.length);
+    });
+});
+
+describe("map repair", () => {
+    it("repairs a blocked map until it is solvable", () => {
+        const { pipes, report, repairs } = repair(tooFar, 0.3, 50);
+        expect(report.solvable).toBe(true);
+        expect(checkPipes(pipes).solvable).toBe(true);
+        expect(repairs).toBeGreaterThan(0);
+        // Only the blocked pipe is moved, towards the gap before it
+        expect(pipes[1]).toEqual(tooFar[1]);
+        expect(pipes[2].gap_y).toBeLessThan(tooFar[2].gap_y);
+        expect(pipes[2].gap_height).toBeGreaterThanOrEqual(
+            tooFar[2].gap_height,
+        );
+    });
+
+    it("leaves a solvable map alone", () => {
+        const solvable = tooFar.filter((_, i) => i !== 2);
+        expect(repair(solvable, 0.3, 50)).toMatchObject({
+            pipes: solvable,
+            repairs: 0,
+        });
+    });
+
+    it("gives up without repairs left", () => {
+        const { report, repairs } = repair(tooFar, 0.3, 0);
+        expect(repairs).toBe(0);
+        expect(report.solvable).toBe(false);
+    });
+});
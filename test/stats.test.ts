@@ -0,0 +1,149 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { type LifeLost, type State, createState } from "../src/engine.ts";
+import {
+    type RunStats,
+    type StatsEntry,
+    HISTORY_SIZE,
+    addRun,
+    deadliestCell,
+    deathHeatmap,
+    keepsRun,
+    loadStats,
+    runStats,
+    saveStats,
+} from "../src/stats.ts";
+import { memoryStorage } from "./memoryStorage.ts";
+
+// A life lost at a map time, `slowedMs` later on the run's clock
+const lifeLost = (worldMs: number, slowedMs = 0): LifeLost => ({
+    timeMs: worldMs + slowedMs,
+    worldMs,
+    y: 200,
+});
+
+// A single-player run that lost lives at the given map times
+const runOf = (deaths: readonly LifeLost[]): RunStats => ({
+    flaps: 10,
+    nearMisses: 0,
+    survivedMs: 5000,
+    pipesCleared: 2,
+    deaths,
+});
+
+describe("run statistics", () => {
+    it("sums up each bird of a two-player run on its own", () => {
+        const start = createState(1, [], [], "map", undefined, 2);
+        const s: State = {
+            ...start,
+            timeMs: 9000,
+            flaps: [1, 2, 3],
+            nearMissesMs: [2000],
+            scoredMs: [1500, 3000],
+            others: [
+                {
+                    ...start.others[0],
+                    lives: 0,
+                    flaps: [4],
+                    nearMissesMs: [1500, 3000, 4500],
+                    scoredMs: [1500],
+                    lostAt: [lifeLost(1000), lifeLost(4000, 500)],
+                },
+            ],
+        };
+        expect(runStats(s)).toEqual([
+            {
+                flaps: 3,
+                nearMisses: 1,
+                survivedMs: 9000,
+                pipesCleared: 2,
+                deaths: [],
+            },
+            {
+                flaps: 1,
+                nearMisses: 3,
+                survivedMs: 4500,
+                pipesCleared: 1,
+                deaths: s.others[0].lostAt,
+            },
+        ]);
+    });
+
+    it("keeps the last runs up to the cap", () => {
+        const full = Array.from({ length: HISTORY_SIZE }, (_, i) => i).reduce(
+            (history: StatsEntry[], i) => addRun(history, runOf([]), i),
+            [],
+        );
+        expect(full).toHaveLength(HISTORY_SIZE);
+        expect(full[0].recordedAt).toBe(0);
+        const next = addRun(full, runOf([lifeLost(100)]), HISTORY_SIZE);
+        expect(next).toHaveLength(HISTORY_SIZE);
+        expect(next[0].recordedAt).toBe(1);
+        expect(next[HISTORY_SIZE - 1]).toEqual({
+            ...runOf([lifeLost(100)]),
+            recordedAt: HISTORY_SIZE,
+        });
+    });
+
+    it("places deaths by map time, however slowed the run was", () => {
+        const runs = [
+            runOf([lifeLost(200), lifeLost(1200, 3000)]),
+            runOf([lifeLost(1400, 800)]),
+        ];
+        expect(deathHeatmap(runs)).toEqual([1, 0, 2]);
+        expect(deathHeatmap(runs, 1000)).toEqual([1, 2]);
+        expect(deadliestCell(deathHeatmap(runs))).toBe(2);
+    });
+
+    it("finds no deadliest cell without deaths", () => {
+        expect(deathHeatmap([runOf([])])).toEqual([]);
+        expect(deadliestCell([])).toBeUndefined();
+        expect(deadliestCell([0, 0])).toBeUndefined();
+        // The earliest of a tie
+        expect(deadliestCell([0, 2, 1, 2])).toBe(1);
+    });
+
+    it.each([
+        ["a practice run", { practice: true }],
+        ["an autopilot run", { assisted: true }],
+        ["a test play", { testing: true }],
+        ["a two-player run", { players: 2 }],
+    ])("leaves out %s", (_, kind) => {
+        const run = {
+            practice: false,
+            assisted: false,
+            testing: false,
+            players: 1,
+        };
+        expect(keepsRun(run)).toBe(true);
+        expect(keepsRun({ ...run, ...kind })).toBe(false);
+    });
+});
+
+describe("statistics storage", () => {
+    beforeEach(() => {
+        vi.spyOn(console, "error").mockImplementation(() => {});
+    });
+
+    it("reads back the runs it saved", () => {
+        const storage = memoryStorage();
+        const runs = [addRun([], runOf([lifeLost(300, 100)]), 5)[0]];
+        saveStats("map", runs, storage);
+        expect(loadStats("map", storage)).toEqual(runs);
+    });
+
+    it("drops runs that are not in the expected shape", () => {
+        const kept = { ...runOf([lifeLost(300)]), recordedAt: 5 };
+        const storage = memoryStorage({
+            "flappy-bird:stats:map": JSON.stringify([
+                kept,
+                { ...kept, flaps: "10" },
+                { ...kept, deaths: [{ timeMs: 300, y: 200 }] },
+                { ...runOf([]) },
+            ]),
+        });
+        expect(loadStats("map", storage)).toEqual([kept]);
+        storage.setItem("flappy-bird:stats:map", "{}");
+        expect(loadStats("map", storage)).toEqual([]);
+    });
+});